@@ -19,6 +19,40 @@ export interface MultimodalContent {
   };
 }
 
+// Jupyter display data keyed by MIME type, like image/png or text/html
+export type MimeBundle = Record<string, any>;
+
+export type ToolCallStatus = "running" | "completed" | "error";
+
+export interface ToolCall {
+  callId: string;
+  name: string;
+  arguments?: any;
+  output?: string;
+  status: ToolCallStatus;
+  startTime: number;
+  endTime?: number;
+  // Length of the message content when the call started, used to place the
+  // call between the surrounding text
+  contentOffset?: number;
+  // Manual re-executions of the call's code, outside of an LLM turn
+  reruns?: ToolCallRun[];
+  // Stdout and stderr streamed while the code ran, may contain ANSI codes
+  liveOutput?: string;
+  // Figures, tables and other rich outputs of the code
+  displays?: MimeBundle[];
+}
+
+export interface ToolCallRun {
+  id: string;
+  code: string;
+  output?: string;
+  displays?: MimeBundle[];
+  status: ToolCallStatus;
+  startTime: number;
+  endTime?: number;
+}
+
 export interface RequestMessage {
   role: MessageRole;
   content: string | MultimodalContent[];
@@ -47,9 +81,27 @@ export interface ChatOptions {
     usage?: CompletionUsage,
   ) => void;
   onError?: (err: Error) => void;
-  onFunctionCall?: (name?: string, args?: any, callId?: string) => void;
-  onFunctionOutput?: (content?: string, callId?: string) => void;
+  onFunctionCall?: (
+    name?: string,
+    args?: any,
+    callId?: string,
+    contentOffset?: number,
+  ) => void;
+  onFunctionOutput?: (
+    content?: string,
+    callId?: string,
+    displays?: MimeBundle[],
+  ) => void;
+  // Stdout and stderr of a tool call while its code is running
+  onExecutionOutput?: (
+    text: string,
+    stream: "stdout" | "stderr",
+    callId?: string,
+  ) => void;
   onNewCompletion?: (completionId?: string) => void;
+  // Markdown rendered by the agent through the UI bridge, kept apart from
+  // the reply so it isn't sent back as conversation history
+  onRender?: (markdown: string) => void;
 }
 
 export interface LLMUsage {
@@ -2,10 +2,31 @@
 
 import log from "loglevel";
 import { hyphaWebsocketClient } from "hypha-rpc";
-import { ChatOptions, LLMApi, RequestMessage } from "./api";
+import {
+  ChatOptions,
+  LLMApi,
+  MimeBundle,
+  MultimodalContent,
+  RequestMessage,
+  ToolCall,
+} from "./api";
 import { ChatCompletionFinishReason, CompletionUsage } from "@mlc-ai/web-llm";
-import { isMobileOrLowMemory } from "../utils";
-import { useHyphaStore } from "../store/hypha";
+import { getMessageTextContent, isMobileOrLowMemory } from "../utils";
+import {
+  AgentSessionMode,
+  CodeApprovalMode,
+  useAppConfig,
+} from "../store/config";
+import { Resource, useHyphaStore } from "../store/hypha";
+import { getActiveProfile } from "../store/connection";
+import { KernelToken, useKernelTokenStore } from "../store/kernel-token";
+import {
+  getSecretEnvirons,
+  redactSecrets,
+  redactSecretsDeep,
+} from "../store/vault";
+import { extractMimeBundles } from "../utils/mime";
+import { createUIBridgeService } from "./ui-bridge";
 
 // Simple authentication error detection
 const isAuthenticationError = (error: any): boolean => {
@@ -450,6 +471,219 @@ class SmoothStreamingBuffer {
   }
 }
 
+/**
+ * Policy for forwarding image attachments to agents
+ */
+export interface ImageForwardingPolicy {
+  maxInlineBytes: number; // Larger images are uploaded to the project instead
+  maxImagesPerMessage: number;
+  allowedMimeTypes: string[];
+}
+
+/**
+ * Default image forwarding policy
+ */
+export const DEFAULT_IMAGE_FORWARDING_POLICY: ImageForwardingPolicy = {
+  maxInlineBytes: 512 * 1024,
+  maxImagesPerMessage: 3,
+  allowedMimeTypes: ["image/png", "image/jpeg", "image/webp", "image/gif"],
+};
+
+// Split a base64 data URL into its MIME type and payload
+const parseDataUrl = (
+  url: string,
+): { mimeType: string; base64: string } | null => {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/);
+  if (!match) return null;
+  return { mimeType: match[1].toLowerCase(), base64: match[2] };
+};
+
+// Decoded size of a base64 payload, without decoding it
+const estimateBase64Bytes = (base64: string): number => {
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+};
+
+const base64ToFile = (
+  base64: string,
+  fileName: string,
+  mimeType: string,
+): File => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new File([bytes], fileName, { type: mimeType });
+};
+
+// Raised into a streaming reply when the server connection drops
+export class ConnectionLostError extends Error {
+  constructor() {
+    super(
+      "Lost the connection to the Hypha server while the agent was replying. The reply is restored after reconnecting if the agent finished it.",
+    );
+    this.name = "ConnectionLostError";
+  }
+}
+
+// Yield from a stream until it ends or the interrupt promise rejects, a
+// dropped connection would otherwise leave the stream waiting forever
+async function* untilInterrupted<T>(
+  stream: AsyncIterable<T>,
+  interrupt: Promise<never>,
+): AsyncGenerator<T> {
+  const iterator = stream[Symbol.asyncIterator]();
+  let done = false;
+  try {
+    while (true) {
+      const result = await Promise.race([iterator.next(), interrupt]);
+      if (result.done) {
+        done = true;
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    // Closing a remote generator early also closes it on the server
+    if (!done) {
+      Promise.resolve(iterator.return?.()).catch(() => {});
+    }
+  }
+}
+
+// Kernel tokens expiring sooner are replaced before the next chat turn
+const KERNEL_TOKEN_REFRESH_MS = 10 * 60 * 1000;
+
+// Installed by the environment setup script, as a Python list
+const KERNEL_PACKAGES = `['numpy', 'nbformat', 'pandas', 'matplotlib', 'plotly', 'hypha-rpc', 'pyodide-http']`;
+
+/**
+ * Environment setup for running an exported session outside of the chat.
+ * The kernel token is not exported, the notebook reads HYPHA_TOKEN instead.
+ */
+export function buildNotebookSetupScript(
+  serverUrl: string,
+  workspace: string,
+  projectId?: string,
+): string {
+  return `# Hypha Environment Setup
+# Set HYPHA_TOKEN to a token of workspace ${workspace} before running
+import os
+try:
+    # Pyodide kernels, like the chat's agents and JupyterLite
+    import micropip
+    await micropip.install(${KERNEL_PACKAGES})
+    import pyodide_http
+    pyodide_http.patch_all()
+except ImportError:
+    %pip install numpy nbformat pandas matplotlib plotly hypha-rpc
+%matplotlib inline
+
+from hypha_rpc import connect_to_server
+os.environ.setdefault('HYPHA_SERVER_URL', '${serverUrl}')
+os.environ.setdefault('HYPHA_WORKSPACE', '${workspace}')
+os.environ.setdefault('HYPHA_PROJECT_ID', '${projectId ?? ""}')
+server = await connect_to_server(server_url=os.environ['HYPHA_SERVER_URL'], token=os.environ.get('HYPHA_TOKEN'))
+print("Environment variables set successfully.")
+`;
+}
+
+// Text of a message from the agent's server-side conversation
+const getHistoryText = (message: ChatMessage): string => {
+  const content = message.content;
+  if (typeof content === "string") return content.trim();
+  // Like getMessageTextContent, only the first text part counts
+  if (Array.isArray(content)) {
+    const part = content.find((part) => part.type === "text");
+    return part?.type === "text" ? part.text.trim() : "";
+  }
+  return "";
+};
+
+// Render a Jupyter-style kernel output message as plain text
+const formatKernelOutput = (item: any): string => {
+  const data = item?.data ?? {};
+  switch (item?.type) {
+    case "stream":
+      return data.text ?? "";
+    case "execute_result":
+    case "display_data": {
+      const bundle = data.data ?? data;
+      if (bundle["text/plain"]) return `${bundle["text/plain"]}\n`;
+      const mimeType = Object.keys(bundle)[0];
+      return mimeType ? `[${mimeType} output]\n` : "";
+    }
+    case "error":
+      // Tracebacks carry ANSI color codes
+      return (
+        (data.traceback?.join("\n") ?? `${data.ename}: ${data.evalue}`).replace(
+          /\x1b\[[0-9;]*m/g,
+          "",
+        ) + "\n"
+      );
+    default:
+      return "";
+  }
+};
+
+export interface KernelVariable {
+  name: string;
+  type: string;
+  shape?: number[];
+  preview?: string;
+  // First rows of a DataFrame
+  table?: { columns: string[]; data: any[][] };
+}
+
+export interface KernelInspection {
+  variables: KernelVariable[];
+  packages: { name: string; version: string }[];
+}
+
+const KERNEL_INSPECTION_MARKER = "__KERNEL_INSPECTION__";
+
+// Runs inside the agent kernel; everything is scoped to a function that is
+// removed afterwards so the user's namespace is left untouched
+const INSPECT_KERNEL_SCRIPT = `
+def __inspect_kernel():
+    import json, types
+    skip = {"In", "Out", "exit", "quit", "get_ipython", "api", "server"}
+    variables = []
+    for name, value in list(globals().items()):
+        if name.startswith("_") or name in skip or callable(value) or isinstance(value, types.ModuleType):
+            continue
+        entry = {"name": name, "type": type(value).__name__}
+        try:
+            if type(value).__module__.startswith("pandas") and hasattr(value, "columns"):
+                entry["shape"] = list(value.shape)
+                head = json.loads(value.head(10).to_json(orient="split", default_handler=str))
+                entry["table"] = {"columns": [str(c) for c in head["columns"]], "data": head["data"]}
+            elif hasattr(value, "shape") and hasattr(value, "dtype"):
+                entry["shape"] = list(value.shape)
+                summary = f"dtype={value.dtype}"
+                if value.size and value.dtype.kind in "biuf":
+                    summary += f", min={value.min():.4g}, max={value.max():.4g}, mean={value.mean():.4g}"
+                entry["preview"] = summary
+            else:
+                if hasattr(value, "__len__"):
+                    entry["shape"] = [len(value)]
+                entry["preview"] = repr(value)[:200]
+        except Exception as e:
+            entry["preview"] = f"<unavailable: {e}>"
+        variables.append(entry)
+    try:
+        import micropip
+        packages = [{"name": p.name, "version": p.version} for p in micropip.list().values()]
+    except Exception:
+        import importlib.metadata
+        packages = [{"name": d.metadata["Name"], "version": d.version} for d in importlib.metadata.distributions()]
+    packages.sort(key=lambda p: p["name"].lower())
+    print("${KERNEL_INSPECTION_MARKER}" + json.dumps({"variables": variables, "packages": packages}))
+__inspect_kernel()
+del __inspect_kernel
+`;
+
 export interface AgentConfig {
   id: string;
   name: string;
@@ -462,6 +696,73 @@ export interface AgentConfig {
   maxSteps?: number;
 }
 
+export type AgentKernelType = NonNullable<AgentConfig["kernelType"]>;
+
+// Overrides of a chat session for the agents it creates
+export type AgentRuntimeSettings = Partial<
+  Pick<AgentConfig, "kernelType" | "kernelEnvirons" | "maxSteps">
+> & {
+  enablePlanning?: boolean;
+  // Appended to the instructions of the agent's manifest
+  extraInstructions?: string;
+  // Vault secrets injected as kernel environment variables
+  secretNames?: string[];
+};
+
+/**
+ * Apply the runtime settings of a session on top of an agent config
+ */
+export function applyAgentRuntime(
+  config: AgentConfig,
+  runtime: AgentRuntimeSettings = {},
+): AgentConfig {
+  const kernelType = runtime.kernelType ?? config.kernelType ?? "PYTHON";
+  const extraInstructions = runtime.extraInstructions?.trim();
+  return {
+    ...config,
+    kernelType,
+    kernelEnvirons: {
+      ...config.kernelEnvirons,
+      ...runtime.kernelEnvirons,
+      ...getSecretEnvirons(runtime.secretNames),
+    },
+    maxSteps: runtime.maxSteps ?? config.maxSteps,
+    enablePlanning: runtime.enablePlanning ?? config.enablePlanning,
+    instructions: extraInstructions
+      ? `${config.instructions ?? ""}\n\n${extraInstructions}`.trim()
+      : config.instructions,
+    // Manifest startup scripts are written for the Python kernel
+    startupScript: kernelType === "PYTHON" ? config.startupScript : "",
+  };
+}
+
+/**
+ * Build the engine config for an agent created from a catalog resource
+ */
+export function createAgentConfig(
+  resource: Resource,
+  agentId: string,
+  label: string,
+  runtime?: AgentRuntimeSettings,
+): AgentConfig {
+  return applyAgentRuntime(
+    {
+      id: agentId,
+      name: `${resource.manifest?.name || resource.name} (${label})`,
+      instructions:
+        resource.manifest?.instructions ||
+        resource.description ||
+        "You are a helpful AI assistant.",
+      kernelType: "PYTHON",
+      autoAttachKernel: true,
+      startupScript: resource.manifest?.startup_script || "",
+      enablePlanning: true,
+      maxSteps: 10,
+    },
+    runtime,
+  );
+}
+
 export interface AgentInfo {
   id: string;
   name: string;
@@ -469,6 +770,98 @@ export interface AgentInfo {
   created?: string;
 }
 
+// Agent id without the workspace prefix the engine may add
+const getLocalAgentId = (agentId: string) =>
+  agentId.slice(
+    Math.max(agentId.lastIndexOf("/"), agentId.lastIndexOf(":")) + 1,
+  );
+
+/**
+ * Id of the chat session owning an agent, agents are created with ids like
+ * `${session.id}@${agent}` and may carry a workspace prefix on the engine
+ */
+export function getAgentSessionId(agentId: string): string | null {
+  const localId = getLocalAgentId(agentId);
+  const index = localId.indexOf("@");
+  return index > 0 ? localId.slice(0, index) : null;
+}
+
+export type CodeRisk = "deletion" | "network" | "token";
+
+const CODE_RISK_PATTERNS: Record<CodeRisk, RegExp> = {
+  deletion:
+    /\b(?:os\.(?:remove|unlink|rmdir|removedirs)|shutil\.rmtree|Deno\.remove|fs\.(?:rm|rmdir|unlink)(?:Sync)?)\s*\(|\.unlink\s*\(|\brm\s+-[a-z]*r/,
+  network:
+    /\b(?:requests|httpx|urllib|aiohttp|socket|pyfetch|micropip|connect_to_server|XMLHttpRequest|WebSocket)\b|\bfetch\s*\(/,
+  token:
+    /HYPHA_TOKEN|\bgenerate_?token\b|\btoken\b|\bos\.environ\b|\bDeno\.env\b|\bprocess\.env\b/i,
+};
+
+/**
+ * Risky operations found in code written by an agent
+ */
+export function detectCodeRisks(code: string): CodeRisk[] {
+  return (Object.keys(CODE_RISK_PATTERNS) as CodeRisk[]).filter((risk) =>
+    CODE_RISK_PATTERNS[risk].test(code),
+  );
+}
+
+export interface CodeReviewRequest {
+  callId?: string;
+  code: string;
+  risks: CodeRisk[];
+  // Aborted when the reply is stopped while the review is pending
+  signal?: AbortSignal;
+}
+
+export interface CodeReviewDecision {
+  approved: boolean;
+  // Code to run instead of the agent's when the user edited it
+  code?: string;
+  reason?: string;
+}
+
+export type CodeReviewer = (
+  request: CodeReviewRequest,
+) => Promise<CodeReviewDecision>;
+
+// Secrets injected into the kernel never reach the chat through replies
+function withRedactedSecrets(options: ChatOptions): ChatOptions {
+  return {
+    ...options,
+    onUpdate:
+      options.onUpdate &&
+      ((message, chunk) =>
+        options.onUpdate!(redactSecrets(message), redactSecrets(chunk))),
+    onFinish: (message, stopReason, usage) =>
+      options.onFinish(redactSecrets(message), stopReason, usage),
+    onFunctionCall:
+      options.onFunctionCall &&
+      ((name, args, callId, contentOffset) =>
+        options.onFunctionCall!(
+          name,
+          redactSecretsDeep(args),
+          callId,
+          contentOffset,
+        )),
+    onFunctionOutput:
+      options.onFunctionOutput &&
+      ((content, callId, displays) =>
+        options.onFunctionOutput!(
+          content && redactSecrets(content),
+          callId,
+          displays && redactSecretsDeep(displays),
+        )),
+    onRender:
+      options.onRender &&
+      ((markdown) => options.onRender!(redactSecrets(markdown))),
+    onExecutionOutput:
+      options.onExecutionOutput &&
+      ((text, stream, callId) =>
+        options.onExecutionOutput!(redactSecrets(text), stream, callId)),
+  };
+}
+
 export interface ChatResponse {
   type:
     | "text"
@@ -476,6 +869,7 @@ export interface ChatResponse {
     | "error"
     | "function_call"
     | "function_call_output"
+    | "execution_output"
     | "new_completion";
   content?: string;
   error?: string;
@@ -483,11 +877,23 @@ export interface ChatResponse {
   arguments?: any;
   call_id?: string;
   completion_id?: string;
+  // Stream of an execution_output chunk, sent while code is still running
+  stream?: "stdout" | "stderr";
+  // Jupyter outputs of a function_call_output chunk, with display data
+  outputs?: any[];
 }
 
+export type ChatContentPart =
+  | { type: "text"; text: string }
+  | {
+      type: "image_url";
+      image_url: { url: string };
+      dimension?: { width: number; height: number };
+    };
+
 export interface ChatMessage {
   role: "system" | "user" | "assistant";
-  content?: string;
+  content?: string | ChatContentPart[];
   tool_call_id?: string;
   tool_calls?: {
     type: string;
@@ -501,14 +907,29 @@ export class HyphaAgentApi implements LLMApi {
   private server: any = null;
   private service: any = null;
   private agentId: string | null = null;
+  // Artifact project bound to the current session, exposed to the kernel
+  // as HYPHA_PROJECT_ID; the default project is used when unset
+  private projectId: string | null = null;
   private abortController: AbortController | null = null;
   private isConnected: boolean = false;
+  // Store connection the services were resolved on
+  private connectionEpoch: number = -1;
   private memoryOptimized: boolean = false;
   private apiService: any = null;
+  // Set while a chat is streaming so the UI bridge can render into its message
+  private inlineContentHandler: ((markdown: string) => void) | null = null;
+  // Asked to approve runCode calls, see CodeApprovalMode
+  private codeReviewer: CodeReviewer | null = null;
+  private imagePolicy: ImageForwardingPolicy = {
+    ...DEFAULT_IMAGE_FORWARDING_POLICY,
+  };
+  // Attachments already uploaded to the project, by message id and index, so
+  // the history sent on later turns doesn't upload them again
+  private uploadedImages = new Map<string, ChatContentPart>();
 
   constructor(
-    private serverUrl: string = "https://hypha.aicell.io",
-    private serviceId: string = "hypha-agents/deno-app-engine",
+    private serverUrl: string = getActiveProfile().serverUrl,
+    private serviceId: string = getActiveProfile().engineServiceId,
     private getServerConnection?: () => Promise<any>,
   ) {
     // Optimize for memory-constrained devices but keep streaming enabled
@@ -605,6 +1026,20 @@ export class HyphaAgentApi implements LLMApi {
   }
 
   async initialize() {
+    // Services of a replaced store connection are gone, resolve them again
+    let rebindBridge = false;
+    if (
+      this.isConnected &&
+      this.getServerConnection &&
+      this.connectionEpoch !== useHyphaStore.getState().connectionEpoch
+    ) {
+      log.info(
+        "[HyphaAgent] Server connection changed, resolving the engine again",
+      );
+      this.isConnected = false;
+      this.service = null;
+      rebindBridge = true;
+    }
     if (this.isConnected) return;
 
     try {
@@ -614,16 +1049,13 @@ export class HyphaAgentApi implements LLMApi {
 
         try {
           this.server = await this.getServerConnection();
-          this.apiService = await this.server.registerService({
-            id: "default-api-service-" + Date.now(),
-            name: "Default API Service",
-            alert: () => {
-              console.log("Alert");
-            },
-            showMessage: () => {
-              console.log("Show Message");
-            },
-          });
+          this.connectionEpoch = useHyphaStore.getState().connectionEpoch;
+          this.apiService = await this.server.registerService(
+            createUIBridgeService({
+              appendToCurrentMessage: (markdown) =>
+                this.appendToCurrentMessage(markdown),
+            }),
+          );
           log.info(
             "[HyphaAgent] Server connection obtained:",
             typeof this.server,
@@ -711,6 +1143,7 @@ export class HyphaAgentApi implements LLMApi {
 
       this.isConnected = true;
       log.info("[HyphaAgent] Connected successfully");
+      if (rebindBridge) await this.rebindUIBridge();
     } catch (error: any) {
       log.error("[HyphaAgent] Failed to connect:", error);
 
@@ -733,46 +1166,60 @@ export class HyphaAgentApi implements LLMApi {
   /**
    * Generate environment setup script for Python agents
    */
-  private async generateEnvironmentSetupScript(): Promise<string> {
-    // Generate a token for the agent
-    const token = await this.server.generateToken();
-
+  private async generateEnvironmentSetupScript(
+    agentId: string,
+  ): Promise<string> {
     // Get server info
     const config = this.server.config || {};
     const serverUrl = config.public_base_url || this.serverUrl;
-    const workspace = config.workspace;
+    const workspace =
+      useAppConfig.getState().kernelToken.workspace?.trim() || config.workspace;
     const userId = config.user?.id;
 
+    // The kernel gets its own short-lived token limited to the workspace,
+    // not the user's login token
+    const { token, permission, issuedAt, expiresAt } =
+      await this.issueKernelToken(workspace);
+
     // Get current URL if available
     const currentUrl =
       typeof window !== "undefined" ? window.location.href : "";
     const svcId = this.apiService.id;
 
-    // Get default project ID from hypha store
+    // Get the session's project ID, falling back to the default project
     let projectId = "";
     try {
-      const hyphaStore = useHyphaStore.getState();
-      if (hyphaStore.defaultProject) {
-        projectId = hyphaStore.defaultProject;
-      } else {
-        // Initialize default project if not available
-        await hyphaStore.initializeDefaultProject();
-        projectId = hyphaStore.defaultProject || "";
-      }
+      projectId = await useHyphaStore
+        .getState()
+        .resolveProjectId(this.projectId ?? undefined);
     } catch (error) {
-      log.warn("[HyphaAgent] Failed to get default project ID:", error);
+      log.warn("[HyphaAgent] Failed to get project ID:", error);
       // Continue without project ID
     }
 
+    useKernelTokenStore.getState().addToken({
+      agentId,
+      sessionId: getAgentSessionId(agentId),
+      token,
+      workspace,
+      permission,
+      projectId: projectId || undefined,
+      issuedAt,
+      expiresAt,
+    });
+
     const setupScript = `# Hypha Environment Setup
 import micropip
-await micropip.install(['numpy', 'nbformat', 'pandas', 'matplotlib', 'plotly', 'hypha-rpc', 'pyodide-http'])
+await micropip.install(${KERNEL_PACKAGES})
 import pyodide_http
 pyodide_http.patch_all()
 %matplotlib inline
 
 from hypha_rpc import connect_to_server
 server = await connect_to_server(server_url="${serverUrl}", token="${token}")
+# Chat UI bridge: alert, showMessage, confirm, askUser, requestFile,
+# renderContent({"type": "html" | "plotly" | "image", "content": ...}),
+# getSessionMessages(limit)
 api = await server.get_service("${svcId}")
 print("Hypha Core service connected in kernel.")
 
@@ -826,6 +1273,9 @@ print("Environment variables set successfully.")
         // Don't throw here - continue with creation attempt
       }
 
+      // A recreated agent gets a new kernel token
+      await this.revokeKernelToken(config.id);
+
       // Prepare agent configuration with environment setup
       const modifiedConfig = { ...config };
 
@@ -837,7 +1287,7 @@ print("Environment variables set successfully.")
 
         try {
           const environmentSetupScript =
-            await this.generateEnvironmentSetupScript();
+            await this.generateEnvironmentSetupScript(config.id);
 
           if (config.startupScript) {
             // If there's already a startup script, prepend the environment setup
@@ -865,7 +1315,10 @@ print("Environment variables set successfully.")
       }
 
       log.info("[HyphaAgent] Creating new agent:", config.id);
-      log.debug("[HyphaAgent] Agent config:", modifiedConfig);
+      log.debug(
+        "[HyphaAgent] Agent config:",
+        redactSecretsDeep(modifiedConfig),
+      );
 
       const agent = await this.service.createAgent(modifiedConfig);
       this.agentId = agent.id;
@@ -989,6 +1442,7 @@ print("Environment variables set successfully.")
       if (this.agentId === agentId) {
         this.agentId = null;
       }
+      await this.revokeKernelToken(agentId);
     } catch (error) {
       log.error("[HyphaAgent] Failed to destroy agent:", error);
       throw error;
@@ -1010,6 +1464,127 @@ print("Environment variables set successfully.")
     }
   }
 
+  private findKernelToken(agentId: string): KernelToken | undefined {
+    const localId = getLocalAgentId(agentId);
+    return useKernelTokenStore
+      .getState()
+      .tokens.find((token) => getLocalAgentId(token.agentId) === localId);
+  }
+
+  // Token for an agent's kernel, with the configured permission and expiry
+  private async issueKernelToken(workspace: string) {
+    const { permission, expiresIn } = useAppConfig.getState().kernelToken;
+    const token: string = await this.server.generateToken({
+      workspace,
+      permission,
+      expires_in: expiresIn,
+    });
+    const issuedAt = Date.now();
+    return {
+      token,
+      permission,
+      issuedAt,
+      expiresAt: issuedAt + expiresIn * 1000,
+    };
+  }
+
+  /**
+   * Give the agent's kernel a new token when its current one is about to
+   * expire or already has, and revoke the old one
+   */
+  private async refreshKernelToken(): Promise<void> {
+    if (!this.agentId) return;
+    const entry = this.findKernelToken(this.agentId);
+    if (!entry || entry.expiresAt - Date.now() > KERNEL_TOKEN_REFRESH_MS) {
+      return;
+    }
+
+    try {
+      const issued = await this.issueKernelToken(entry.workspace);
+      const result = await this.executeCode(
+        `import os\nos.environ['HYPHA_TOKEN'] = ${JSON.stringify(issued.token)}`,
+      );
+      if (!result.success) throw new Error(result.output);
+      await this.revokeKernelToken(entry.agentId);
+      useKernelTokenStore.getState().addToken({ ...entry, ...issued });
+      log.info("[HyphaAgent] Kernel token refreshed:", entry.agentId);
+    } catch (error) {
+      log.warn("[HyphaAgent] Failed to refresh kernel token:", error);
+    }
+  }
+
+  /**
+   * Revoke the token issued to an agent's kernel, e.g. once it is destroyed
+   */
+  async revokeKernelToken(agentId: string): Promise<void> {
+    const entry = this.findKernelToken(agentId);
+    if (!entry) return;
+    useKernelTokenStore.getState().removeToken(entry.agentId);
+    if (!entry.token || entry.expiresAt <= Date.now()) return;
+
+    try {
+      await this.initialize();
+      if (typeof this.server?.revokeToken !== "function") {
+        log.warn(
+          "[HyphaAgent] Server can't revoke tokens, kernel token expires at",
+          new Date(entry.expiresAt).toLocaleString(),
+        );
+        return;
+      }
+      await this.server.revokeToken(entry.token);
+      log.info("[HyphaAgent] Kernel token revoked:", entry.agentId);
+    } catch (error) {
+      log.warn("[HyphaAgent] Failed to revoke kernel token:", error);
+    }
+  }
+
+  /**
+   * Destroy several agents, returning the ids that could not be destroyed
+   */
+  async destroyAgents(agentIds: string[]): Promise<string[]> {
+    const failed: string[] = [];
+    for (const agentId of agentIds) {
+      try {
+        await this.destroyAgent(agentId);
+      } catch (error) {
+        failed.push(agentId);
+      }
+    }
+    log.info(
+      `[HyphaAgent] Destroyed ${agentIds.length - failed.length}/${agentIds.length} agents`,
+    );
+    return failed;
+  }
+
+  // Destroy the agents owned by the given chat sessions
+  async destroySessionAgents(sessionIds: string[]): Promise<string[]> {
+    const agents = await this.listAgents();
+    return this.destroyAgents(
+      agents
+        .map((agent) => agent.id)
+        .filter((id) => sessionIds.includes(getAgentSessionId(id) ?? "")),
+    );
+  }
+
+  /**
+   * Load of the engine serving this client, or null when not reported
+   */
+  async getEngineLoad(): Promise<number | null> {
+    await this.initialize();
+
+    if (!this.service || !("getEngineLoad" in this.service)) {
+      return null;
+    }
+
+    try {
+      const load = await this.service.getEngineLoad();
+      return typeof load === "number" ? load : null;
+    } catch (error) {
+      log.warn("[HyphaAgent] Failed to get engine load:", error);
+      return null;
+    }
+  }
+
   async agentExists(params: { agentId: string }): Promise<{ exists: boolean }> {
     await this.initialize();
 
@@ -1026,23 +1601,359 @@ print("Environment variables set successfully.")
   }
 
   /**
-   * Convert RequestMessage array to ChatMessage array for stateless chat
+   * Fetch the conversation the agent keeps server-side, or null when the
+   * service does not expose it
+   */
+  async getAgentConversation(): Promise<ChatMessage[] | null> {
+    if (!this.agentId) return null;
+
+    await this.initialize();
+
+    if (!this.service || !("getAgentConversation" in this.service)) {
+      return null;
+    }
+
+    try {
+      const result = await this.service.getAgentConversation({
+        agentId: this.agentId,
+      });
+      const messages = Array.isArray(result)
+        ? result
+        : result?.conversation ?? result?.messages ?? [];
+      return messages.filter(
+        (m: ChatMessage) => m.role === "user" || m.role === "assistant",
+      );
+    } catch (error) {
+      log.warn("[HyphaAgent] Failed to get agent conversation:", error);
+      return null;
+    }
+  }
+
+  /**
+   * A turn can reuse the agent's own history when persistent sessions are
+   * enabled and the agent has seen the same last user message as the local
+   * session. A fresh or recreated agent only matches an empty conversation.
+   */
+  private async canChatStatefully(
+    messages: RequestMessage[],
+  ): Promise<boolean> {
+    if (
+      useAppConfig.getState().agentSessionMode !== AgentSessionMode.Stateful ||
+      !("chatWithAgent" in this.service)
+    ) {
+      return false;
+    }
+
+    const remote = await this.getAgentConversation();
+    if (!remote) return false;
+
+    const previous = messages.slice(0, -1);
+    if (remote.length === 0) {
+      return !previous.some((m) => m.role === "assistant");
+    }
+
+    const lastLocalUser = previous
+      .filter((m) => m.role === "user")
+      .map((m) => getMessageTextContent(m).trim())
+      .pop();
+    const lastRemoteUser = remote
+      .filter((m) => m.role === "user")
+      .map((m) => getHistoryText(m))
+      .pop();
+    return !!lastLocalUser && lastLocalUser === lastRemoteUser;
+  }
+
+  /**
+   * After a reload the last reply may only exist on the agent, e.g. when the
+   * page was closed while streaming. Returns that reply if the local session
+   * is missing it.
+   */
+  async recoverLastReply(messages: RequestMessage[]): Promise<string | null> {
+    const remote = await this.getAgentConversation();
+    if (!remote?.length) return null;
+
+    const lastRemoteUserIndex = remote.map((m) => m.role).lastIndexOf("user");
+    const lastLocalUserIndex = messages.map((m) => m.role).lastIndexOf("user");
+    if (lastRemoteUserIndex < 0 || lastLocalUserIndex < 0) return null;
+
+    const sameTurn =
+      getHistoryText(remote[lastRemoteUserIndex]) ===
+      getMessageTextContent(messages[lastLocalUserIndex]).trim();
+    if (!sameTurn) return null;
+
+    const remoteReply = remote
+      .slice(lastRemoteUserIndex + 1)
+      .map((m) => getHistoryText(m))
+      .filter(Boolean)
+      .join("\n\n");
+    const localReply = messages
+      .slice(lastLocalUserIndex + 1)
+      .map((m) => getMessageTextContent(m))
+      .join("\n\n");
+
+    return remoteReply.length > localReply.trim().length
+      ? redactSecrets(convertScriptTagsToMarkdown(remoteReply))
+      : null;
+  }
+
+  /**
+   * Look up the kernel attached to the current agent
+   */
+  async getAgentKernelId(): Promise<string> {
+    if (!this.agentId) {
+      throw new Error(
+        "No agent selected. Please create or select an agent first.",
+      );
+    }
+
+    await this.initialize();
+
+    if (!this.service || !("getAgent" in this.service)) {
+      throw new Error("getAgent method not available in service");
+    }
+
+    const info = await this.service.getAgent({ agentId: this.agentId });
+    const kernelId = info?.kernelId ?? info?.kernel_id ?? info?.kernel?.id;
+    if (!kernelId) {
+      throw new Error(`Agent ${this.agentId} has no kernel attached`);
+    }
+    return kernelId;
+  }
+
+  /**
+   * Execute code directly in the agent's kernel, without an LLM turn.
+   * Output is streamed to onOutput as plain text as it arrives, display data
+   * is collected separately.
+   */
+  async executeCode(
+    code: string,
+    onOutput?: (output: string) => void,
+  ): Promise<{ success: boolean; output: string; displays: MimeBundle[] }> {
+    const kernelId = await this.getAgentKernelId();
+
+    if (!("streamExecution" in this.service)) {
+      throw new Error("streamExecution method not available in service");
+    }
+
+    let output = "";
+    let success = true;
+    const displays: MimeBundle[] = [];
+    try {
+      const outputs = await this.service.streamExecution({ kernelId, code });
+      for await (const item of outputs) {
+        if (item?.type === "error") success = false;
+        displays.push(...extractMimeBundles([item]));
+        const text = formatKernelOutput(item);
+        if (text) {
+          output += text;
+          onOutput?.(redactSecrets(output));
+        }
+      }
+    } catch (error) {
+      log.error("[HyphaAgent] Failed to execute code:", error);
+      throw error;
+    }
+    return {
+      success,
+      output: redactSecrets(output),
+      displays: redactSecretsDeep(displays),
+    };
+  }
+
+  /**
+   * List variables and installed packages in the agent's kernel, which has
+   * to be a Python kernel
+   */
+  async inspectKernel(): Promise<KernelInspection> {
+    const { success, output } = await this.executeCode(INSPECT_KERNEL_SCRIPT);
+    const line = output
+      .split("\n")
+      .find((l) => l.startsWith(KERNEL_INSPECTION_MARKER));
+    if (!success || !line) {
+      throw new Error(output || "Kernel inspection returned no result");
+    }
+    return JSON.parse(line.slice(KERNEL_INSPECTION_MARKER.length));
+  }
+
+  async getKernelStatus(): Promise<string> {
+    const kernelId = await this.getAgentKernelId();
+    if (!("getKernelInfo" in this.service)) return "unknown";
+
+    const info = await this.service.getKernelInfo({ kernelId });
+    return info?.status ?? "unknown";
+  }
+
+  async interruptKernel(): Promise<void> {
+    const kernelId = await this.getAgentKernelId();
+    if (!("interruptKernel" in this.service)) {
+      throw new Error("interruptKernel method not available in service");
+    }
+    await this.service.interruptKernel({ kernelId });
+  }
+
+  async restartKernel(): Promise<void> {
+    const kernelId = await this.getAgentKernelId();
+    if (!("restartKernel" in this.service)) {
+      throw new Error("restartKernel method not available in service");
+    }
+    await this.service.restartKernel({ kernelId });
+  }
+
+  /**
+   * Run the environment setup script again, e.g. after a kernel restart
+   * cleared the Hypha connection and environment variables. Only Python
+   * kernels get the setup script.
+   */
+  async rerunEnvironmentSetup(): Promise<{ success: boolean; output: string }> {
+    await this.getAgentKernelId();
+    const agentId = this.agentId!;
+    await this.revokeKernelToken(agentId);
+    const script = await this.generateEnvironmentSetupScript(agentId);
+    return this.executeCode(script);
+  }
+
+  /**
+   * Convert RequestMessage array to ChatMessage array for stateless chat.
+   * Image attachments are forwarded as content parts, see convertImageAttachment.
    */
-  private convertToChatMessages(messages: RequestMessage[]): ChatMessage[] {
-    return messages.map((msg) => ({
-      role: msg.role as "system" | "user" | "assistant",
-      content:
+  private async convertToChatMessages(
+    messages: (RequestMessage & { id?: string; toolCalls?: ToolCall[] })[],
+  ): Promise<ChatMessage[]> {
+    const chatMessages: ChatMessage[] = [];
+    for (const msg of messages) {
+      let content =
         typeof msg.content === "string"
           ? msg.content
           : Array.isArray(msg.content)
-            ? msg.content
-                .map((c) => (c.type === "text" ? c.text : ""))
-                .join(" ")
-            : "",
-    }));
+            ? await this.convertMultimodalContent(msg.content, msg.id)
+            : "";
+      if (typeof content === "string" && msg.toolCalls?.length) {
+        content += "\n\n" + this.formatToolCallHistory(msg.toolCalls);
+      }
+      chatMessages.push({
+        role: msg.role as "system" | "user" | "assistant",
+        content,
+      });
+    }
+    return chatMessages;
+  }
+
+  private async convertMultimodalContent(
+    content: MultimodalContent[],
+    messageId?: string,
+  ): Promise<string | ChatContentPart[]> {
+    const policy = this.imagePolicy;
+    const parts: ChatContentPart[] = [];
+    let imageCount = 0;
+
+    for (const c of content) {
+      if (c.type === "text") {
+        if (c.text) parts.push({ type: "text", text: c.text });
+        continue;
+      }
+      if (c.type !== "image_url" || !c.image_url?.url) continue;
+
+      if (imageCount >= policy.maxImagesPerMessage) {
+        log.warn(
+          `[HyphaAgent] Dropping image attachment, limit of ${policy.maxImagesPerMessage} per message reached`,
+        );
+        continue;
+      }
+      imageCount++;
+      parts.push(await this.convertImageAttachment(c, imageCount, messageId));
+    }
+
+    // Keep the plain string form for text-only messages
+    if (parts.every((p) => p.type === "text")) {
+      return parts.map((p) => (p.type === "text" ? p.text : "")).join(" ");
+    }
+    return parts;
+  }
+
+  /**
+   * Small images are inlined as data URLs. Images above the inline limit are
+   * uploaded to the user's default project and referenced by file name, so
+   * the agent can load them from the kernel via HYPHA_PROJECT_ID.
+   */
+  private async convertImageAttachment(
+    c: MultimodalContent,
+    index: number,
+    messageId?: string,
+  ): Promise<ChatContentPart> {
+    const url = c.image_url!.url;
+    const dimension = c.dimension;
+    const parsed = parseDataUrl(url);
+
+    // Remote images are passed through unchanged
+    if (!parsed) {
+      return { type: "image_url", image_url: { url }, dimension };
+    }
+
+    if (!this.imagePolicy.allowedMimeTypes.includes(parsed.mimeType)) {
+      log.warn(
+        `[HyphaAgent] Unsupported image format ${parsed.mimeType}, not forwarded`,
+      );
+      return {
+        type: "text",
+        text: `[Image attachment omitted: unsupported format ${parsed.mimeType}]`,
+      };
+    }
+
+    const size = estimateBase64Bytes(parsed.base64);
+    if (size <= this.imagePolicy.maxInlineBytes) {
+      return { type: "image_url", image_url: { url }, dimension };
+    }
+
+    const cacheKey = messageId && `${messageId}:${index}`;
+    const uploaded = cacheKey && this.uploadedImages.get(cacheKey);
+    if (uploaded) return uploaded;
+
+    // Named after the message, so uploading it again replaces the file
+    const extension = parsed.mimeType.split("/")[1].replace("jpeg", "jpg");
+    const fileName = `chat-image-${messageId ?? Date.now()}-${index}.${extension}`;
+    const sizeText = dimension
+      ? `${dimension.width}x${dimension.height}, `
+      : "";
+
+    try {
+      const projectId = await useHyphaStore
+        .getState()
+        .resolveProjectId(this.projectId ?? undefined);
+      await useHyphaStore
+        .getState()
+        .uploadFileToProject(
+          base64ToFile(parsed.base64, fileName, parsed.mimeType),
+          undefined,
+          fileName,
+          projectId,
+        );
+      log.info(
+        `[HyphaAgent] Uploaded ${size} byte image attachment as ${fileName}`,
+      );
+      const part: ChatContentPart = {
+        type: "text",
+        text: `[Image attachment uploaded to project ${projectId} as "${fileName}" (${sizeText}${parsed.mimeType}). It was too large to send inline; load it from the project files using HYPHA_PROJECT_ID.]`,
+      };
+      if (cacheKey) this.uploadedImages.set(cacheKey, part);
+      return part;
+    } catch (error) {
+      log.error("[HyphaAgent] Failed to upload image attachment:", error);
+      return {
+        type: "text",
+        text: `[Image attachment omitted: ${Math.round(size / 1024)}KB exceeds the inline limit and uploading it to the project failed]`,
+      };
+    }
+  }
+
+  /**
+   * Update the image forwarding policy
+   */
+  setImagePolicy(policy: Partial<ImageForwardingPolicy>): void {
+    this.imagePolicy = { ...this.imagePolicy, ...policy };
   }
 
-  async chat(options: ChatOptions): Promise<void> {
+  async chat(chatOptions: ChatOptions): Promise<void> {
+    const options = withRedactedSecrets(chatOptions);
     if (!this.agentId) {
       options.onError?.(
         new Error("No agent selected. Please create or select an agent first."),
@@ -1051,6 +1962,7 @@ print("Environment variables set successfully.")
     }
 
     await this.initialize();
+    await this.refreshKernelToken();
 
     if (!this.service || !("chatWithAgentStateless" in this.service)) {
       options.onError?.(
@@ -1060,7 +1972,27 @@ print("Environment variables set successfully.")
     }
 
     // Create abort controller for this request
-    this.abortController = new AbortController();
+    const abortController = new AbortController();
+    this.abortController = abortController;
+
+    // Fail the reply instead of waiting on a connection the supervisor lost,
+    // and stop waiting for the next chunk once the reply is stopped
+    let interrupt: (error: Error) => void = () => {};
+    const interrupted = new Promise<never>((_, reject) => {
+      interrupt = reject;
+    });
+    interrupted.catch(() => {});
+    abortController.signal.addEventListener("abort", () =>
+      interrupt(new DOMException("Chat aborted", "AbortError")),
+    );
+    const unsubscribeConnection = useHyphaStore.subscribe((state) => {
+      if (
+        state.connectionState === "reconnecting" ||
+        state.connectionState === "offline"
+      ) {
+        interrupt(new ConnectionLostError());
+      }
+    });
 
     /*
      * SMOOTH STREAMING IMPLEMENTATION:
@@ -1078,20 +2010,26 @@ print("Environment variables set successfully.")
      */
 
     // Convert messages to ChatMessage format for stateless chat
-    const chatMessages = this.convertToChatMessages(options.messages);
+    const chatMessages = await this.convertToChatMessages(options.messages);
 
     let accumulatedContent = "";
     let stopReason: ChatCompletionFinishReason | undefined;
     let usage: CompletionUsage | undefined;
 
-    // Track function executions for detailed summary
-    const functionExecutions: Array<{
-      name: string;
-      args: any;
-      callId: string;
-      output?: string;
-      timestamp: number;
-    }> = [];
+    // A reply may consist of tool calls only
+    let toolCallCount = 0;
+
+    // Code the user edited during review replaces the agent's in the UI
+    const shownCalls = new Map<string, { name: string; offset: number }>();
+    const editedArgs = new Map<string, any>();
+    const approveToolCall = this.createToolCallApprover((callId, args) => {
+      if (!callId) return;
+      editedArgs.set(callId, args);
+      const shown = shownCalls.get(callId);
+      if (shown) {
+        options.onFunctionCall?.(shown.name, args, callId, shown.offset);
+      }
+    });
 
     // Create streaming buffer for smooth character-by-character rendering
     const streamingBuffer = new SmoothStreamingBuffer((content: string) => {
@@ -1099,9 +2037,15 @@ print("Environment variables set successfully.")
       options.onUpdate?.(content, "");
     });
 
+    // Content rendered by the agent through the UI bridge goes into this message
+    this.inlineContentHandler = options.onRender ?? null;
+
     try {
+      // Persistent sessions only send the new message, the agent keeps the
+      // conversation and kernel state; otherwise the whole history is replayed
+      let stateful = await this.canChatStatefully(options.messages);
       log.info(
-        "[HyphaAgent] Starting stateless chat with agent:",
+        `[HyphaAgent] Starting ${stateful ? "stateful" : "stateless"} chat with agent:`,
         this.agentId,
         chatMessages,
       );
@@ -1113,6 +2057,16 @@ print("Environment variables set successfully.")
 
       while (retryCount < maxRetries) {
         try {
+          if (stateful) {
+            log.debug("chatWithAgent", this.agentId);
+            chatGenerator = await this.service.chatWithAgent({
+              agentId: this.agentId,
+              message: chatMessages[chatMessages.length - 1].content,
+              ...(approveToolCall && { approveToolCall }),
+            });
+            break;
+          }
+
           log.debug(
             "chatWithAgentStateless",
             this.agentId,
@@ -1123,6 +2077,7 @@ print("Environment variables set successfully.")
           chatGenerator = await this.service.chatWithAgentStateless({
             agentId: this.agentId,
             messages: chatMessages,
+            ...(approveToolCall && { approveToolCall }),
           });
           break; // Success, exit retry loop
         } catch (error: any) {
@@ -1153,6 +2108,12 @@ print("Environment variables set successfully.")
             errorMessage,
           );
 
+          // The persistent session is gone, replay the history instead
+          if (stateful) {
+            stateful = false;
+            continue;
+          }
+
           if (
             retryCount < maxRetries &&
             (errorMessage.includes("not found") ||
@@ -1174,9 +2135,12 @@ print("Environment variables set successfully.")
         throw new Error("Failed to create chat generator after retries");
       }
 
-      for await (const chunk of chatGenerator) {
+      for await (const chunk of untilInterrupted<any>(
+        chatGenerator,
+        interrupted,
+      )) {
         // Check if aborted
-        if (this.abortController?.signal.aborted) {
+        if (abortController.signal.aborted) {
           streamingBuffer.stop();
           break;
         }
@@ -1265,111 +2229,49 @@ print("Environment variables set successfully.")
             streamingBuffer.addContent(processedContent);
           }
         } else if (chunk.type === "function_call") {
-          // Code execution is starting
+          // Code execution is starting, tool calls are reported as structured
+          // records and rendered by the chat UI next to the text
           const functionName = chunk.name || "unknown_function";
           const callId = chunk.call_id || `call_${Date.now()}`;
+          toolCallCount++;
 
-          // Add emoji-enhanced function call to accumulated content with spinner
-          const executionMessage = `\n\n🚀 **Executing ${functionName} tool** <span class="execution-spinner">🔄</span>\n`;
-          accumulatedContent += executionMessage;
-
-          // Convert script tags to markdown before updating
+          // Flush the text so far, the call is placed right after it
           const processedContent =
             convertScriptTagsToMarkdown(accumulatedContent);
+          streamingBuffer.addImmediateContent(processedContent);
 
-          // Use immediate display for function calls
-          if (this.shouldUseImmediateDisplay(chunk.type, processedContent)) {
-            streamingBuffer.addImmediateContent(processedContent);
-          } else {
-            streamingBuffer.addContent(processedContent);
-          }
-
-          // Track function execution
-          functionExecutions.push({
+          shownCalls.set(callId, {
             name: functionName,
-            args: chunk.arguments,
-            callId: callId,
-            timestamp: Date.now(),
+            offset: processedContent.length,
           });
-
-          // Call the callback if provided
-          options.onFunctionCall?.(chunk.name, chunk.arguments, chunk.call_id);
-
-          console.log(
-            `🚀 Executing ${chunk.name} tool with call_id: ${chunk.call_id}`,
+          options.onFunctionCall?.(
+            functionName,
+            editedArgs.get(callId) ?? chunk.arguments,
+            callId,
+            processedContent.length,
           );
-        } else if (chunk.type === "function_call_output") {
-          // Code execution completed with results
-          const callId = chunk.call_id || "";
-          const output = chunk.content || "";
 
-          // Find the corresponding function execution
-          const execution = functionExecutions.find(
-            (exec) => exec.callId === callId,
+          console.log(
+            `🚀 Executing ${functionName} tool with call_id: ${callId}`,
           );
-          if (execution) {
-            execution.output = output;
+        } else if (chunk.type === "execution_output") {
+          // Output printed by code that is still running
+          if (chunk.content) {
+            options.onExecutionOutput?.(
+              chunk.content,
+              chunk.stream ?? "stdout",
+              chunk.call_id,
+            );
           }
-
-          // Replace the spinner with completion status in the accumulated content
-          // Find and replace the execution message for this specific function call
-          const functionNameEscaped = (execution?.name || "function").replace(
-            /[.*+?^${}()|[\]\\]/g,
-            "\\$&",
-          );
-          const executionPattern = new RegExp(
-            `🚀 \\*\\*Executing ${functionNameEscaped} tool\\*\\* <span class="execution-spinner">🔄</span>`,
-            "g",
-          );
-
-          // Replace the spinner with completed status
-          accumulatedContent = accumulatedContent.replace(
-            executionPattern,
-            `🚀 **Executing ${execution?.name || "function"} tool** ✅`,
+        } else if (chunk.type === "function_call_output") {
+          // Code execution completed with results, figures and tables come
+          // as display data next to the text output
+          options.onFunctionOutput?.(
+            chunk.content,
+            chunk.call_id,
+            extractMimeBundles(chunk.outputs ?? chunk.content),
           );
 
-          // Format and display the results
-          let resultMessage = `\n✅ **Execution completed**\n\n`;
-
-          if (output) {
-            resultMessage += `**Result:**\n\n`;
-
-            // Try to format output as JSON if possible
-            try {
-              const parsedOutput = JSON.parse(output);
-              resultMessage += "```json\n";
-              resultMessage += JSON.stringify(parsedOutput, null, 2);
-              resultMessage += "\n```\n\n";
-            } catch {
-              // If not JSON, check if it looks like console output or plain text
-              if (output.includes("\n") || output.length > 100) {
-                // Multi-line or long output - use code block
-                resultMessage += "```\n";
-                resultMessage += output;
-                resultMessage += "\n```\n\n";
-              } else {
-                // Short output - display inline with code formatting
-                resultMessage += `\`${output}\`\n\n`;
-              }
-            }
-          }
-
-          accumulatedContent += resultMessage;
-
-          // Convert script tags to markdown before updating
-          const processedContent =
-            convertScriptTagsToMarkdown(accumulatedContent);
-
-          // Use immediate display for function output
-          if (this.shouldUseImmediateDisplay(chunk.type, processedContent)) {
-            streamingBuffer.addImmediateContent(processedContent);
-          } else {
-            streamingBuffer.addContent(processedContent);
-          }
-
-          // Call the callback if provided
-          options.onFunctionOutput?.(chunk.content, chunk.call_id);
-
           console.log(
             `📤 Function output for ${chunk.call_id}:`,
             chunk.content,
@@ -1388,33 +2290,18 @@ print("Environment variables set successfully.")
       }
 
       // Set completion status
-      stopReason = this.abortController?.signal.aborted ? "stop" : "stop";
+      stopReason = "stop";
       const promptTokens = options.messages.reduce(
         (acc, msg) =>
           acc + (typeof msg.content === "string" ? msg.content.length : 0),
         0,
       );
 
-      // Add function execution summary if there were any function calls
-      let finalContent = accumulatedContent;
-      if (functionExecutions.length > 0) {
-        const executionSummary =
-          this.formatFunctionExecutionSummary(functionExecutions);
-        // Ensure the execution summary also has script tags converted
-        const processedSummary = convertScriptTagsToMarkdown(executionSummary);
-        finalContent += processedSummary;
-      }
-
       // Convert script tags to markdown for final content
-      const processedFinalContent = convertScriptTagsToMarkdown(finalContent);
+      const processedFinalContent =
+        convertScriptTagsToMarkdown(accumulatedContent);
       const completionTokens = processedFinalContent.length;
 
-      // Complete the streaming buffer to ensure all content is displayed
-      if (functionExecutions.length > 0) {
-        // If we have function executions, add the summary to the streaming buffer
-        streamingBuffer.addContent(processedFinalContent);
-      }
-
       // Complete the streaming to show any remaining content immediately
       streamingBuffer.complete();
 
@@ -1432,17 +2319,17 @@ print("Environment variables set successfully.")
       };
 
       // Always call onFinish with the final processed content
-      if (processedFinalContent && !this.abortController?.signal.aborted) {
+      if (
+        (processedFinalContent || toolCallCount > 0) &&
+        !abortController.signal.aborted
+      ) {
         options.onFinish(processedFinalContent, stopReason, usage);
       }
     } catch (error: any) {
       // Always stop streaming buffer on error
       streamingBuffer.stop();
 
-      if (
-        error?.name === "AbortError" ||
-        this.abortController?.signal.aborted
-      ) {
+      if (error?.name === "AbortError" || abortController.signal.aborted) {
         log.info("[HyphaAgent] Chat aborted by user");
         return;
       }
@@ -1466,15 +2353,152 @@ print("Environment variables set successfully.")
       log.error("[HyphaAgent] Chat error:", error);
       options.onError?.(error);
     } finally {
-      this.abortController = null;
+      unsubscribeConnection();
+      if (this.abortController === abortController) {
+        this.abortController = null;
+      }
+      this.inlineContentHandler = null;
+    }
+  }
+
+  setCodeReviewer(reviewer: CodeReviewer | null): void {
+    this.codeReviewer = reviewer;
+  }
+
+  /**
+   * Callback handed to the engine, which awaits it before running a tool
+   * call. Only runCode is reviewed, the decision and the user's reason are
+   * returned to the agent. `onEdited` gets the arguments of edited calls.
+   */
+  private createToolCallApprover(
+    onEdited: (callId: string | undefined, args: any) => void,
+  ) {
+    const mode = useAppConfig.getState().codeApprovalMode;
+    if (!mode || mode === CodeApprovalMode.Off) return undefined;
+    const signal = this.abortController?.signal;
+
+    return async (call: {
+      name?: string;
+      arguments?: any;
+      call_id?: string;
+    }) => {
+      const code = call?.arguments?.code;
+      if (call?.name !== "runCode" || typeof code !== "string") {
+        return { approved: true };
+      }
+
+      const risks = detectCodeRisks(code);
+      if (mode === CodeApprovalMode.Risky && risks.length === 0) {
+        return { approved: true };
+      }
+      if (!this.codeReviewer) {
+        return {
+          approved: false,
+          reason: "Code execution requires approval, but no reviewer is open",
+        };
+      }
+
+      const stoppedDecision: CodeReviewDecision = {
+        approved: false,
+        reason: "The user stopped the reply",
+      };
+      if (signal?.aborted) return stoppedDecision;
+      let onAbort = () => {};
+      const stopped = new Promise<CodeReviewDecision>((resolve) => {
+        onAbort = () => resolve(stoppedDecision);
+        signal?.addEventListener("abort", onAbort, { once: true });
+      });
+      const decision = await Promise.race([
+        this.codeReviewer({ callId: call.call_id, code, risks, signal }),
+        stopped,
+      ]).finally(() => signal?.removeEventListener("abort", onAbort));
+      log.info(
+        `[HyphaAgent] Code ${decision.approved ? "approved" : "rejected"}:`,
+        call.call_id,
+      );
+
+      if (!decision.approved) {
+        return {
+          approved: false,
+          reason: decision.reason?.trim() || "The user rejected the code",
+        };
+      }
+      if (decision.code !== undefined && decision.code !== code) {
+        const args = { ...call.arguments, code: decision.code };
+        onEdited(call.call_id, args);
+        return {
+          approved: true,
+          arguments: args,
+          reason: "The user edited the code before running it",
+        };
+      }
+      return { approved: true };
+    };
+  }
+
+  /**
+   * Point `api` in the agent's kernel at the UI bridge registered on the new
+   * connection, the kernel still holds the service of the replaced one
+   */
+  private async rebindUIBridge(): Promise<void> {
+    // Only kernels that ran the environment setup have `server` and `api`
+    if (
+      !this.agentId ||
+      !this.apiService ||
+      !this.findKernelToken(this.agentId)
+    )
+      return;
+    try {
+      const result = await this.executeCode(
+        `api = await server.get_service(${JSON.stringify(this.apiService.id)})`,
+      );
+      if (!result.success) throw new Error(result.output);
+      log.info("[HyphaAgent] UI bridge rebound in kernel:", this.agentId);
+    } catch (error) {
+      log.warn("[HyphaAgent] Failed to rebind the UI bridge:", error);
     }
   }
 
+  /**
+   * Render markdown from the UI bridge into the message of the running chat
+   */
+  private appendToCurrentMessage(markdown: string): boolean {
+    if (!this.inlineContentHandler) return false;
+    this.inlineContentHandler(markdown);
+    return true;
+  }
+
+  /**
+   * Stop the running turn, on the engine as well: the agent's completion
+   * loop is interrupted and so is any code still executing in its kernel
+   */
   async abort(): Promise<void> {
-    if (this.abortController) {
-      this.abortController.abort();
-      this.abortController = null;
+    const abortController = this.abortController;
+    if (!abortController) return;
+    abortController.abort();
+    this.abortController = null;
+    if (!this.agentId) return;
+
+    const results = await Promise.allSettled([
+      this.interruptAgent(),
+      this.interruptKernel(),
+    ]);
+    results.forEach((result) => {
+      if (result.status === "rejected") {
+        log.warn("[HyphaAgent] Failed to interrupt agent:", result.reason);
+      }
+    });
+  }
+
+  // Stop the agent's completion loop on the engine
+  private async interruptAgent(): Promise<void> {
+    await this.initialize();
+    if (!this.service || !("interruptAgent" in this.service)) {
+      log.warn("[HyphaAgent] interruptAgent method not available in service");
+      return;
     }
+    await this.service.interruptAgent({ agentId: this.agentId });
+    log.info("[HyphaAgent] Agent interrupted:", this.agentId);
   }
 
   async models() {
@@ -1482,6 +2506,18 @@ print("Environment variables set successfully.")
     return [];
   }
 
+  /**
+   * Create another client on the same engine and server connection, for
+   * talking to several agents at once
+   */
+  clone(): HyphaAgentApi {
+    return new HyphaAgentApi(
+      this.serverUrl,
+      this.serviceId,
+      this.getServerConnection,
+    );
+  }
+
   // Utility methods
   setAgentId(agentId: string): void {
     this.agentId = agentId;
@@ -1491,6 +2527,53 @@ print("Environment variables set successfully.")
     return this.agentId;
   }
 
+  setProjectId(projectId: string | null): void {
+    this.projectId = projectId;
+  }
+
+  getProjectId(): string | null {
+    return this.projectId;
+  }
+
+  /**
+   * Point HYPHA_PROJECT_ID of the running kernel at another project
+   */
+  async updateKernelProject(projectId: string | null): Promise<void> {
+    this.projectId = projectId;
+    if (!this.agentId) return;
+
+    const resolvedId = await useHyphaStore
+      .getState()
+      .resolveProjectId(projectId ?? undefined);
+    const result = await this.executeCode(
+      `import os\nos.environ['HYPHA_PROJECT_ID'] = ${JSON.stringify(resolvedId)}`,
+    );
+    if (!result.success) {
+      throw new Error(result.output);
+    }
+    const entry = this.findKernelToken(this.agentId);
+    if (entry) {
+      useKernelTokenStore.getState().updateProject(entry.agentId, resolvedId);
+    }
+    log.info("[HyphaAgent] Kernel project updated:", resolvedId);
+  }
+
+  /**
+   * Unregister the UI bridge of this client, which would otherwise stay on
+   * the shared server connection. Meant for clients made by clone().
+   */
+  async dispose(): Promise<void> {
+    const apiService = this.apiService;
+    this.apiService = null;
+    this.isConnected = false;
+    if (!apiService || !this.server) return;
+    try {
+      await this.server.unregisterService(apiService.id);
+    } catch (error) {
+      log.warn("[HyphaAgent] Failed to unregister the UI bridge:", error);
+    }
+  }
+
   async disconnect(): Promise<void> {
     try {
       // Only disconnect if we created the connection (not using server connection provider)
@@ -1525,50 +2608,39 @@ print("Environment variables set successfully.")
     this.isConnected = false;
   }
 
-  // Format function execution summary as collapsible markdown with proper spacing
-  private formatFunctionExecutionSummary(
-    executions: Array<{
-      name: string;
-      args: any;
-      callId: string;
-      output?: string;
-      timestamp: number;
-    }>,
-  ): string {
+  /**
+   * Tool calls are kept out of the message text, so replay them to the agent
+   * as markdown to keep earlier code and results in its context
+   */
+  private formatToolCallHistory(executions: ToolCall[]): string {
     if (executions.length === 0) return "";
 
     let summary = "";
     summary += `<details>\n\n<summary>🔧 Tool Use History (${executions.length} ${executions.length === 1 ? "tool call" : "tool calls"})</summary>\n\n`;
 
     executions.forEach((execution, index) => {
-      const duration = execution.output ? "✅ completed" : "⏳ in progress";
-      const timestamp = new Date(execution.timestamp).toLocaleTimeString();
-
       summary += `### ${index + 1}. \`${execution.name}\` Tool\n\n`;
-      // summary += `- **Call ID:** \`${execution.callId}\`\n`;
-      // summary += `- **Time:** ${timestamp}\n`;
-      // summary += `- **Status:** ${duration}\n\n`;
 
-      if (execution.args && Object.keys(execution.args).length > 0) {
+      if (execution.arguments && Object.keys(execution.arguments).length > 0) {
         // Special handling for runCode function
-        if (execution.name === "runCode" && execution.args.code) {
+        if (execution.name === "runCode" && execution.arguments.code) {
           summary += `**Code:**\n\n`;
 
           // Detect language from context or default to python
           const language =
-            execution.args.language ||
-            (execution.args.kernel === "typescript"
+            execution.arguments.language ||
+            (execution.arguments.kernel === "typescript"
               ? "typescript"
-              : execution.args.kernel === "javascript"
+              : execution.arguments.kernel === "javascript"
                 ? "javascript"
                 : "python");
 
           summary += `\`\`\`${language}\n`;
-          summary += execution.args.code;
+          summary += execution.arguments.code;
           summary += "\n```\n\n";
 
           // Show other arguments if any (excluding code)
-          const otherArgs = { ...execution.args };
+          const otherArgs = { ...execution.arguments };
           delete otherArgs.code;
 
           if (Object.keys(otherArgs).length > 0) {
@@ -1581,7 +2653,7 @@ print("Environment variables set successfully.")
           // Default handling for other functions
           summary += `**Arguments:**\n\n`;
           summary += "```json\n";
-          summary += JSON.stringify(execution.args, null, 2);
+          summary += JSON.stringify(execution.arguments, null, 2);
           summary += "\n```\n\n";
         }
       }
@@ -1656,7 +2728,7 @@ print("Environment variables set successfully.")
     }
 
     // Convert messages to the format expected by the service
-    const chatMessages = this.convertToChatMessages(messages);
+    const chatMessages = await this.convertToChatMessages(messages);
 
     let accumulatedContent = "";
 
@@ -0,0 +1,214 @@
+"use client";
+
+import log from "loglevel";
+import Locale from "../locales";
+import {
+  showAlert,
+  showConfirm,
+  showFilePicker,
+  showQuestion,
+  showToast,
+} from "../components/ui-lib";
+import { useChatStore } from "../store/chat";
+import { getMessageImages, getMessageTextContent } from "../utils";
+import { renderPlotlyDocument } from "../utils/mime";
+
+/**
+ * Payload an agent can render inline in the current bot message
+ */
+export interface RenderPayload {
+  type: "html" | "plotly" | "image";
+  // HTML string, Plotly figure (object or JSON string), or image data
+  content: string | Record<string, any> | Uint8Array;
+  title?: string;
+  mimeType?: string; // Image MIME type when content is raw bytes or base64
+  height?: number;
+}
+
+export interface PickedFile {
+  name: string;
+  type: string;
+  size: number;
+  data: Uint8Array;
+}
+
+export interface SessionMessage {
+  role: string;
+  content: string;
+  images: number;
+  date: string;
+}
+
+/**
+ * Browser-side service handed to agent kernels as `api`.
+ * All methods take positional arguments so they can be called from Python,
+ * e.g. `await api.askUser("Which column?")`.
+ */
+export interface UIBridgeService {
+  id: string;
+  name: string;
+  description: string;
+  alert(message: string): Promise<void>;
+  showMessage(message: string, duration?: number): void;
+  confirm(message: string): Promise<boolean>;
+  askUser(question: string, defaultValue?: string): Promise<string | null>;
+  requestFile(options?: {
+    prompt?: string;
+    accept?: string;
+    multiple?: boolean;
+  }): Promise<PickedFile[]>;
+  renderContent(payload: RenderPayload): Promise<void>;
+  getSessionMessages(limit?: number): SessionMessage[];
+}
+
+export interface UIBridgeHandlers {
+  // Append markdown to the message of the running chat; returns false when
+  // no chat is streaming so the bridge can fall back to the stored session
+  appendToCurrentMessage: (markdown: string) => boolean;
+}
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+// Escape for a double-quoted attribute, also hiding `$` and `\` from the
+// markdown math preprocessing and keeping the HTML block on a single line
+const escapeAttribute = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\$/g, "&#36;")
+    .replace(/\\/g, "&#92;")
+    .replace(/\r?\n/g, "&#10;");
+
+const renderIframe = (html: string, height = 400): string =>
+  `\n\n<iframe class="agent-render" sandbox="allow-scripts" style="width: 100%; height: ${height}px; border: none;" srcdoc="${escapeAttribute(
+    html,
+  )}"></iframe>\n\n`;
+
+/**
+ * Convert a render payload to markdown that the chat Markdown component displays
+ */
+export const renderPayloadToMarkdown = (payload: RenderPayload): string => {
+  // Titles come from the agent and markdown is rendered with raw HTML
+  const title = payload.title
+    ? `\n\n**${escapeAttribute(payload.title)}**`
+    : "";
+  switch (payload.type) {
+    case "html":
+      return title + renderIframe(String(payload.content), payload.height);
+    case "plotly":
+      return (
+        title +
+        renderIframe(
+          renderPlotlyDocument(payload.content as string | Record<string, any>),
+          payload.height ?? 450,
+        )
+      );
+    case "image": {
+      let url: string;
+      if (payload.content instanceof Uint8Array) {
+        url = `data:${payload.mimeType ?? "image/png"};base64,${bytesToBase64(
+          payload.content,
+        )}`;
+      } else {
+        const content = String(payload.content);
+        url = content.startsWith("data:")
+          ? content
+          : `data:${payload.mimeType ?? "image/png"};base64,${content}`;
+      }
+      const alt = (payload.title ?? "image").replace(/[[\]]/g, "");
+      return `${title}\n\n![${escapeAttribute(alt)}](${url})\n\n`;
+    }
+    default:
+      throw new Error(`Unsupported render type: ${(payload as any).type}`);
+  }
+};
+
+/**
+ * Add a render to the last bot message of the current session
+ */
+const appendToSessionMessage = (markdown: string) => {
+  useChatStore.getState().updateCurrentSession((session) => {
+    const lastBotMessage = [...session.messages]
+      .reverse()
+      .find((m) => m.role === "assistant");
+    if (!lastBotMessage) {
+      log.warn("[UIBridge] No bot message to render content into");
+      return;
+    }
+    lastBotMessage.renders = (lastBotMessage.renders ?? []).concat(markdown);
+  });
+};
+
+export function createUIBridgeService(
+  handlers: UIBridgeHandlers,
+): UIBridgeService {
+  return {
+    id: "ui-bridge-" + Date.now(),
+    name: "Chat UI Bridge",
+    description:
+      "Lets agents show messages, ask questions, request files and render content in the chat",
+
+    async alert(message: string) {
+      await showAlert(message, Locale.AgentBridge.AlertTitle);
+    },
+
+    showMessage(message: string, duration = 3000) {
+      showToast(message, undefined, duration);
+    },
+
+    async confirm(message: string) {
+      return showConfirm(message);
+    },
+
+    async askUser(question: string, defaultValue = "") {
+      return showQuestion(question, defaultValue);
+    },
+
+    async requestFile(options = {}) {
+      const files = await showFilePicker(
+        [
+          options.prompt,
+          options.accept &&
+            Locale.AgentBridge.FilePicker.Accept(options.accept),
+        ]
+          .filter(Boolean)
+          .join("\n"),
+        options,
+      );
+      return Promise.all(
+        files.map(async (file) => ({
+          name: file.name,
+          type: file.type,
+          size: file.size,
+          data: new Uint8Array(await file.arrayBuffer()),
+        })),
+      );
+    },
+
+    async renderContent(payload: RenderPayload) {
+      const markdown = renderPayloadToMarkdown(payload);
+      if (!handlers.appendToCurrentMessage(markdown)) {
+        appendToSessionMessage(markdown);
+      }
+    },
+
+    getSessionMessages(limit?: number) {
+      const session = useChatStore.getState().currentSession();
+      const messages = session.messages.filter((m) => !m.isError);
+      return (limit ? messages.slice(-limit) : messages).map((m) => ({
+        role: m.role,
+        content: getMessageTextContent(m),
+        images: getMessageImages(m).length,
+        date: m.date,
+      }));
+    },
+  };
+}
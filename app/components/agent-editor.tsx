@@ -0,0 +1,407 @@
+import React, { useMemo, useRef, useState } from "react";
+import dynamic from "next/dynamic";
+import { useLocation, useNavigate } from "react-router-dom";
+
+import styles from "./agent-editor.module.scss";
+import Locale from "../locales";
+import { ErrorBoundary } from "./error";
+import { IconButton } from "./button";
+import { Input, List, ListItem, showQuestion, showToast } from "./ui-lib";
+import { AgentManifest, useHyphaStore } from "../store/hypha";
+import { ModelClient, useAppConfig, useChatStore } from "../store";
+import { Path } from "../constant";
+
+import CloseIcon from "../icons/close.svg";
+import PlayIcon from "../icons/lightning.svg";
+import UploadIcon from "../icons/upload.svg";
+import LoadingIcon from "../icons/three-dots.svg";
+
+const Markdown = dynamic(async () => (await import("./markdown")).Markdown, {
+  loading: () => <LoadingIcon />,
+});
+
+interface AgentForm {
+  name: string;
+  description: string;
+  id_emoji: string;
+  icon: string;
+  tags: string;
+  covers: string;
+  welcomeMessage: string;
+  instructions: string;
+  startup_script: string;
+}
+
+type AgentFormErrors = Partial<Record<keyof AgentForm, string>>;
+
+const EMPTY_FORM: AgentForm = {
+  name: "",
+  description: "",
+  id_emoji: "🤖",
+  icon: "",
+  tags: "",
+  covers: "",
+  welcomeMessage: "",
+  instructions: "",
+  startup_script: "",
+};
+
+const isUrlOrPath = (value: string) =>
+  /^https?:\/\/\S+$/.test(value) || /^\.\/[\w\-./]+\.\w+$/.test(value);
+
+function manifestToForm(manifest: AgentManifest): AgentForm {
+  return {
+    name: manifest.name ?? "",
+    description: manifest.description ?? "",
+    id_emoji: manifest.id_emoji ?? "",
+    icon: manifest.icon ?? "",
+    tags: (manifest.tags ?? []).join(", "),
+    covers: (manifest.covers ?? []).join("\n"),
+    welcomeMessage: manifest.welcomeMessage ?? "",
+    instructions: manifest.instructions ?? "",
+    startup_script: manifest.startup_script ?? "",
+  };
+}
+
+function formToManifest(form: AgentForm, base?: AgentManifest): AgentManifest {
+  const split = (value: string, separator: RegExp) =>
+    value
+      .split(separator)
+      .map((item) => item.trim())
+      .filter(Boolean);
+
+  return {
+    ...base,
+    name: form.name.trim(),
+    description: form.description.trim(),
+    id_emoji: form.id_emoji.trim() || undefined,
+    icon: form.icon.trim() || undefined,
+    tags: split(form.tags, /,/),
+    covers: split(form.covers, /\n/),
+    welcomeMessage: form.welcomeMessage.trim() || undefined,
+    instructions: form.instructions.trim(),
+    startup_script: form.startup_script || undefined,
+  };
+}
+
+function validateForm(form: AgentForm): AgentFormErrors {
+  const errors: AgentFormErrors = {};
+  if (!form.name.trim()) {
+    errors.name = Locale.AgentEditor.Errors.Required;
+  } else if (form.name.trim().length > 64) {
+    errors.name = Locale.AgentEditor.Errors.TooLong(64);
+  }
+  if (!form.description.trim()) {
+    errors.description = Locale.AgentEditor.Errors.Required;
+  }
+  if (!form.instructions.trim()) {
+    errors.instructions = Locale.AgentEditor.Errors.Required;
+  }
+  if (form.icon.trim() && !isUrlOrPath(form.icon.trim())) {
+    errors.icon = Locale.AgentEditor.Errors.InvalidUrl;
+  }
+  const invalidCover = form.covers
+    .split("\n")
+    .map((cover) => cover.trim())
+    .find((cover) => cover && !isUrlOrPath(cover));
+  if (invalidCover) {
+    errors.covers = Locale.AgentEditor.Errors.InvalidCover(invalidCover);
+  }
+  return errors;
+}
+
+function FieldError(props: { error?: string }) {
+  return props.error ? (
+    <div className={styles["field-error"]}>{props.error}</div>
+  ) : null;
+}
+
+export function AgentEditor() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const config = useAppConfig();
+  const chatStore = useChatStore();
+  const hyphaStore = useHyphaStore();
+
+  // Editing an existing agent or draft when opened with its id
+  const agentId: string | undefined = location.state?.agentId;
+  const source = useMemo(
+    () =>
+      [...hyphaStore.draftAgents, ...hyphaStore.resources].find(
+        (agent) => agent.id === agentId,
+      ),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [agentId],
+  );
+  const isDraft = !!source?.id.startsWith("draft-");
+  const publishedId: string | undefined = isDraft
+    ? source?.config?.publishedId
+    : source?.id;
+
+  const [form, setForm] = useState<AgentForm>(() =>
+    source ? manifestToForm(source.manifest) : EMPTY_FORM,
+  );
+  const [errors, setErrors] = useState<AgentFormErrors>({});
+  const [previewScript, setPreviewScript] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+  const draftIdRef = useRef(isDraft ? source?.id : undefined);
+
+  const updateField = (field: keyof AgentForm, value: string) => {
+    setForm((form) => ({ ...form, [field]: value }));
+    setErrors((errors) => ({ ...errors, [field]: undefined }));
+  };
+
+  const checkForm = () => {
+    const errors = validateForm(form);
+    setErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      showToast(Locale.AgentEditor.Errors.Invalid);
+      return false;
+    }
+    return true;
+  };
+
+  // Run the draft in a fresh session without publishing it
+  const testInScratchSession = () => {
+    if (!checkForm()) return;
+    const manifest = formToManifest(form, source?.manifest);
+    const draft = hyphaStore.saveDraftAgent(
+      manifest,
+      draftIdRef.current,
+      publishedId,
+    );
+    draftIdRef.current = draft.id;
+
+    chatStore.newSession();
+    chatStore.updateCurrentSession((session) => {
+      session.topic = Locale.AgentEditor.ScratchTopic(draft.name);
+      session.agent = { id: draft.id, name: draft.name };
+    });
+    config.update((config) => {
+      config.modelClientType = ModelClient.HYPHA_AGENT;
+    });
+    navigate(Path.Chat);
+  };
+
+  const publish = async () => {
+    if (!checkForm()) return;
+    const comment = publishedId
+      ? await showQuestion(Locale.AgentEditor.VersionComment, "", 1)
+      : "";
+    if (comment === null) return;
+
+    setPublishing(true);
+    try {
+      const artifact = await hyphaStore.publishAgent(
+        formToManifest(form, source?.manifest),
+        publishedId,
+        comment || undefined,
+      );
+      // Sessions testing the draft now use the published agent
+      if (draftIdRef.current) {
+        chatStore.replaceSessionAgent(draftIdRef.current, {
+          id: artifact.id,
+          name: artifact.manifest.name,
+        });
+      }
+      showToast(
+        publishedId
+          ? Locale.AgentEditor.PublishedVersion
+          : Locale.AgentEditor.Published,
+      );
+      navigate(-1);
+    } catch (e: any) {
+      showToast(e?.message ?? String(e));
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const textField = (
+    field: keyof AgentForm,
+    title: string,
+    subTitle?: string,
+  ) => (
+    <ListItem title={title} subTitle={subTitle}>
+      <div className={styles["field"]}>
+        <input
+          type="text"
+          value={form[field]}
+          onChange={(e) => updateField(field, e.currentTarget.value)}
+        />
+        <FieldError error={errors[field]} />
+      </div>
+    </ListItem>
+  );
+
+  return (
+    <ErrorBoundary>
+      <div className={styles["agent-editor"]}>
+        <div className="window-header">
+          <div className="window-header-title">
+            <div className="window-header-main-title">
+              {source
+                ? Locale.AgentEditor.EditTitle
+                : Locale.AgentEditor.CreateTitle}
+            </div>
+            <div className="window-header-submai-title">
+              {publishedId
+                ? Locale.AgentEditor.EditSubTitle(publishedId)
+                : Locale.AgentEditor.CreateSubTitle}
+            </div>
+          </div>
+
+          <div className="window-actions">
+            <div className="window-action-button">
+              <IconButton
+                icon={<PlayIcon />}
+                text={Locale.AgentEditor.Test}
+                bordered
+                onClick={testInScratchSession}
+              />
+            </div>
+            <div className="window-action-button">
+              <IconButton
+                icon={<UploadIcon />}
+                text={
+                  publishedId
+                    ? Locale.AgentEditor.PublishVersion
+                    : Locale.AgentEditor.Publish
+                }
+                type="primary"
+                disabled={publishing || !hyphaStore.user}
+                onClick={publish}
+              />
+            </div>
+            <div className="window-action-button">
+              <IconButton
+                icon={<CloseIcon />}
+                bordered
+                onClick={() => navigate(-1)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className={styles["agent-editor-body"]}>
+          <List>
+            {textField("name", Locale.AgentEditor.Fields.Name)}
+            {textField("description", Locale.AgentEditor.Fields.Description)}
+            {textField("id_emoji", Locale.AgentEditor.Fields.Emoji)}
+            {textField(
+              "icon",
+              Locale.AgentEditor.Fields.Icon,
+              Locale.AgentEditor.Fields.IconHint,
+            )}
+            {textField(
+              "tags",
+              Locale.AgentEditor.Fields.Tags,
+              Locale.AgentEditor.Fields.TagsHint,
+            )}
+          </List>
+
+          <List>
+            <ListItem
+              title={Locale.AgentEditor.Fields.Covers}
+              subTitle={Locale.AgentEditor.Fields.CoversHint}
+            >
+              <div className={styles["field"]}>
+                <Input
+                  rows={3}
+                  value={form.covers}
+                  onChange={(e) => updateField("covers", e.currentTarget.value)}
+                />
+                <FieldError error={errors.covers} />
+              </div>
+            </ListItem>
+            <ListItem title={Locale.AgentEditor.Fields.WelcomeMessage}>
+              <div className={styles["field"]}>
+                <Input
+                  rows={3}
+                  value={form.welcomeMessage}
+                  onChange={(e) =>
+                    updateField("welcomeMessage", e.currentTarget.value)
+                  }
+                />
+              </div>
+            </ListItem>
+          </List>
+
+          <div className={styles["section"]}>
+            <div className={styles["section-title"]}>
+              {Locale.AgentEditor.Fields.Instructions}
+            </div>
+            <Input
+              rows={10}
+              className={styles["editor"]}
+              value={form.instructions}
+              onChange={(e) =>
+                updateField("instructions", e.currentTarget.value)
+              }
+            />
+            <FieldError error={errors.instructions} />
+          </div>
+
+          <div className={styles["section"]}>
+            <div className={styles["section-header"]}>
+              <div className={styles["section-title"]}>
+                {Locale.AgentEditor.Fields.StartupScript}
+              </div>
+              <div className={styles["section-tabs"]}>
+                {[false, true].map((preview) => (
+                  <div
+                    key={String(preview)}
+                    className={`${styles["section-tab"]} ${
+                      previewScript === preview
+                        ? styles["section-tab-active"]
+                        : ""
+                    }`}
+                    onClick={() => setPreviewScript(preview)}
+                  >
+                    {preview
+                      ? Locale.AgentEditor.Preview
+                      : Locale.AgentEditor.Edit}
+                  </div>
+                ))}
+              </div>
+            </div>
+            {previewScript ? (
+              <Markdown
+                content={"```python\n" + form.startup_script + "\n```"}
+              />
+            ) : (
+              <Input
+                rows={14}
+                spellCheck={false}
+                className={`${styles["editor"]} ${styles["code-editor"]}`}
+                placeholder={Locale.AgentEditor.Fields.StartupScriptHint}
+                value={form.startup_script}
+                onKeyDown={(e) => {
+                  // Keep focus in the editor and indent with spaces
+                  if (e.key === "Tab") {
+                    e.preventDefault();
+                    const target = e.currentTarget;
+                    const { selectionStart, selectionEnd, value } = target;
+                    updateField(
+                      "startup_script",
+                      value.slice(0, selectionStart) +
+                        "    " +
+                        value.slice(selectionEnd),
+                    );
+                    requestAnimationFrame(() => {
+                      target.selectionStart = target.selectionEnd =
+                        selectionStart + 4;
+                    });
+                  }
+                }}
+                onChange={(e) =>
+                  updateField("startup_script", e.currentTarget.value)
+                }
+              />
+            )}
+          </div>
+        </div>
+      </div>
+    </ErrorBoundary>
+  );
+}
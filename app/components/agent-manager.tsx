@@ -0,0 +1,247 @@
+import React, { useContext, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+
+import styles from "./agent-manager.module.scss";
+import Locale from "../locales";
+import { ErrorBoundary } from "./error";
+import { IconButton } from "./button";
+import { showConfirm, showToast } from "./ui-lib";
+import { HyphaAgentContext } from "../context";
+import { AgentInfo, getAgentSessionId } from "../client/hypha-agent";
+import { useChatStore } from "../store";
+import { useHyphaStore } from "../store/hypha";
+import { Path } from "../constant";
+
+import CloseIcon from "../icons/close.svg";
+import ReloadIcon from "../icons/reload.svg";
+import DeleteIcon from "../icons/delete.svg";
+import ClearIcon from "../icons/clear.svg";
+import LoadingIcon from "../icons/three-dots.svg";
+
+function formatAge(created?: string) {
+  const time = created ? new Date(created).getTime() : NaN;
+  if (isNaN(time)) return "-";
+
+  const minutes = Math.max(0, Math.floor((Date.now() - time) / 60000));
+  if (minutes < 60) return Locale.AgentManager.Age.Minutes(minutes);
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return Locale.AgentManager.Age.Hours(hours);
+  return Locale.AgentManager.Age.Days(Math.floor(hours / 24));
+}
+
+export function AgentManager() {
+  const navigate = useNavigate();
+  const chatStore = useChatStore();
+  const hyphaAgent = useContext(HyphaAgentContext);
+  const { user, isConnected } = useHyphaStore();
+
+  const [agents, setAgents] = useState<AgentInfo[]>([]);
+  const [engineLoad, setEngineLoad] = useState<number | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const sessionIndex = (agent: AgentInfo) => {
+    const sessionId = getAgentSessionId(agent.id);
+    return chatStore.sessions.findIndex((session) => session.id === sessionId);
+  };
+  const orphanedIds = agents
+    .filter((agent) => sessionIndex(agent) < 0)
+    .map((agent) => agent.id);
+
+  const refresh = async () => {
+    if (!hyphaAgent) return;
+    setLoading(true);
+    try {
+      const [agents, load] = await Promise.all([
+        hyphaAgent.listAgents(),
+        hyphaAgent.getEngineLoad(),
+      ]);
+      setAgents(agents);
+      setEngineLoad(load);
+      setSelectedIds((ids) =>
+        ids.filter((id) => agents.some((agent) => agent.id === id)),
+      );
+    } catch (error: any) {
+      console.error("[AgentManager] Failed to list agents:", error);
+      showToast(Locale.AgentManager.ListFailed(error?.message ?? error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isConnected) {
+      refresh();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isConnected, hyphaAgent]);
+
+  const destroy = async (ids: string[]) => {
+    if (!hyphaAgent || ids.length === 0) return;
+    if (!(await showConfirm(Locale.AgentManager.DestroyConfirm(ids.length)))) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const failed = await hyphaAgent.destroyAgents(ids);
+      showToast(
+        failed.length > 0
+          ? Locale.AgentManager.DestroyFailed(failed.length)
+          : Locale.AgentManager.Destroyed(ids.length),
+      );
+    } finally {
+      setLoading(false);
+    }
+    await refresh();
+  };
+
+  const toggleAgent = (id: string) =>
+    setSelectedIds((ids) =>
+      ids.includes(id)
+        ? ids.filter((selected) => selected !== id)
+        : [...ids, id],
+    );
+
+  const toggleAll = () =>
+    setSelectedIds((ids) =>
+      ids.length === agents.length ? [] : agents.map((agent) => agent.id),
+    );
+
+  const openSession = (index: number) => {
+    chatStore.selectSession(index);
+    navigate(Path.Chat);
+  };
+
+  const renderOwner = (agent: AgentInfo) => {
+    const index = sessionIndex(agent);
+    if (index < 0) {
+      return (
+        <span className={styles["agent-orphaned"]}>
+          {Locale.AgentManager.Orphaned}
+        </span>
+      );
+    }
+    const isComparison = agent.id.includes("@compare-");
+    return (
+      <span
+        className={styles["agent-session"]}
+        onClick={() => openSession(index)}
+      >
+        {chatStore.sessions[index].topic}
+        {isComparison && ` (${Locale.AgentManager.Comparison})`}
+      </span>
+    );
+  };
+
+  return (
+    <ErrorBoundary>
+      <div className={styles["agent-manager"]}>
+        <div className="window-header">
+          <div className="window-header-title">
+            <div className="window-header-main-title">
+              {Locale.AgentManager.Title}
+            </div>
+            <div className="window-header-submai-title">
+              {Locale.AgentManager.SubTitle(agents.length)}
+              {engineLoad !== null &&
+                ` · ${Locale.AgentManager.EngineLoad(engineLoad)}`}
+            </div>
+          </div>
+          <div className="window-actions">
+            <div className="window-action-button">
+              <IconButton
+                icon={<ReloadIcon />}
+                bordered
+                title={Locale.AgentManager.Refresh}
+                disabled={loading || !isConnected}
+                onClick={refresh}
+              />
+            </div>
+            <div className="window-action-button">
+              <IconButton
+                icon={<CloseIcon />}
+                bordered
+                onClick={() => navigate(-1)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className={styles["agent-manager-body"]}>
+          {!user || !isConnected ? (
+            <div className={styles["agent-hint"]}>
+              {Locale.AgentManager.LoginRequired}
+            </div>
+          ) : (
+            <>
+              <div className={styles["agent-actions"]}>
+                <IconButton
+                  icon={<DeleteIcon />}
+                  text={Locale.AgentManager.DestroySelected(selectedIds.length)}
+                  type="danger"
+                  disabled={loading || selectedIds.length === 0}
+                  onClick={() => destroy(selectedIds)}
+                />
+                <IconButton
+                  icon={<ClearIcon />}
+                  text={Locale.AgentManager.DestroyOrphaned(orphanedIds.length)}
+                  bordered
+                  disabled={loading || orphanedIds.length === 0}
+                  onClick={() => destroy(orphanedIds)}
+                />
+                {loading && <LoadingIcon />}
+              </div>
+
+              {agents.length === 0 ? (
+                <div className={styles["agent-hint"]}>
+                  {loading ? "" : Locale.AgentManager.Empty}
+                </div>
+              ) : (
+                <table className={styles["agent-table"]}>
+                  <thead>
+                    <tr>
+                      <th>
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.length === agents.length}
+                          onChange={toggleAll}
+                        />
+                      </th>
+                      <th>{Locale.AgentManager.Columns.Agent}</th>
+                      <th>{Locale.AgentManager.Columns.Session}</th>
+                      <th>{Locale.AgentManager.Columns.Age}</th>
+                      <th>{Locale.AgentManager.Columns.Status}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {agents.map((agent) => (
+                      <tr key={agent.id}>
+                        <td>
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.includes(agent.id)}
+                            onChange={() => toggleAgent(agent.id)}
+                          />
+                        </td>
+                        <td>
+                          <div className={styles["agent-name"]}>
+                            {agent.name}
+                          </div>
+                          <div className={styles["agent-id"]}>{agent.id}</div>
+                        </td>
+                        <td>{renderOwner(agent)}</td>
+                        <td>{formatAge(agent.created)}</td>
+                        <td>{agent.status ?? "-"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </ErrorBoundary>
+  );
+}
@@ -12,6 +12,8 @@ import React, {
 } from "react";
 
 import ShareIcon from "../icons/share.svg";
+import KernelIcon from "../icons/connection.svg";
+import CompareIcon from "../icons/robot.svg";
 import SendWhiteIcon from "../icons/send-white.svg";
 import RenameIcon from "../icons/rename.svg";
 import ExportIcon from "../icons/export.svg";
@@ -45,6 +47,9 @@ import {
   DEFAULT_TOPIC,
   Model,
   ModelClient,
+  AgentSessionMode,
+  SessionAgent,
+  getSessionAgent,
 } from "../store";
 
 import {
@@ -54,6 +59,7 @@ import {
   useMobileScreen,
   getMessageTextContent,
   getMessageImages,
+  isVisionAgent,
   isVisionModel,
   compressImage,
 } from "../utils";
@@ -68,10 +74,12 @@ import LoginButton from "./login-button";
 import styles from "./chat.module.scss";
 
 import {
+  Input,
   List,
   ListItem,
   Modal,
   Popover,
+  Select,
   showConfirm,
   showPrompt,
   showToast,
@@ -89,7 +97,7 @@ import { ContextPrompts, TemplateAvatar } from "./template";
 import { ChatCommandPrefix, useChatCommand, useCommand } from "../command";
 import { prettyObject } from "../utils/format";
 import { ExportMessageModal } from "./exporter";
-import { MultimodalContent } from "../client/api";
+import { MultimodalContent, ToolCall, ToolCallRun } from "../client/api";
 import { Template, useTemplateStore } from "../store/template";
 import Image from "next/image";
 import { MLCLLMContext, WebLLMContext, HyphaAgentContext } from "../context";
@@ -99,7 +107,24 @@ import { ErrorBoundary } from "./error";
 import { InputRange } from "./input-range";
 
 import { useHyphaStore } from "../store/hypha";
-import { AgentConfig } from "../client/hypha-agent";
+import { isUploadActive, useUploadStore } from "../store/upload";
+import {
+  redactSecretsDeep,
+  unredactSecrets,
+  useVaultStore,
+} from "../store/vault";
+import {
+  AgentConfig,
+  AgentKernelType,
+  AgentRuntimeSettings,
+  applyAgentRuntime,
+  createAgentConfig,
+} from "../client/hypha-agent";
+import { nanoid } from "nanoid";
+import { ToolCallCard } from "./tool-call";
+import { splitContentByToolCalls } from "../utils/tool-call";
+import { AlternateReplies } from "./compare";
+import { useCodeReviews } from "./code-review";
 
 export function ScrollDownToast(prop: { show: boolean; onclick: () => void }) {
   return (
@@ -115,6 +140,149 @@ export function ScrollDownToast(prop: { show: boolean; onclick: () => void }) {
   );
 }
 
+const KERNEL_TYPES: AgentKernelType[] = ["PYTHON", "TYPESCRIPT", "JAVASCRIPT"];
+
+function parseEnvirons(text: string) {
+  const environs: Record<string, string> = {};
+  text.split("\n").forEach((line) => {
+    const index = line.indexOf("=");
+    const key = line.slice(0, index).trim();
+    if (index > 0 && key) {
+      environs[key] = line.slice(index + 1).trim();
+    }
+  });
+  return environs;
+}
+
+function AgentRuntimeConfig(props: {
+  runtime: AgentRuntimeSettings;
+  updateRuntime: (updater: (runtime: AgentRuntimeSettings) => void) => void;
+}) {
+  const { runtime, updateRuntime } = props;
+  const vault = useVaultStore();
+  const secretNames = runtime.secretNames ?? [];
+  const [environsText, setEnvironsText] = useState(() =>
+    Object.entries(runtime.kernelEnvirons ?? {})
+      .map(([key, value]) => `${key}=${value}`)
+      .join("\n"),
+  );
+
+  return (
+    <List>
+      <ListItem
+        title={Locale.Chat.Config.Runtime.Title}
+        subTitle={Locale.Chat.Config.Runtime.SubTitle}
+      />
+      <ListItem title={Locale.Chat.Config.Runtime.KernelType}>
+        <Select
+          value={runtime.kernelType ?? "PYTHON"}
+          onChange={(e) => {
+            const kernelType = e.target.value as AgentKernelType;
+            updateRuntime((runtime) => (runtime.kernelType = kernelType));
+          }}
+        >
+          {KERNEL_TYPES.map((type) => (
+            <option value={type} key={type}>
+              {Locale.Chat.Config.Runtime.KernelTypes[type]}
+            </option>
+          ))}
+        </Select>
+      </ListItem>
+      <ListItem
+        title={Locale.Chat.Config.Runtime.MaxSteps.Title}
+        subTitle={Locale.Chat.Config.Runtime.MaxSteps.SubTitle}
+      >
+        <InputRange
+          title={`${runtime.maxSteps ?? 10}`}
+          value={runtime.maxSteps ?? 10}
+          min="1"
+          max="50"
+          step="1"
+          onChange={(e) => {
+            const maxSteps = e.currentTarget.valueAsNumber;
+            updateRuntime((runtime) => (runtime.maxSteps = maxSteps));
+          }}
+        ></InputRange>
+      </ListItem>
+      <ListItem
+        title={Locale.Chat.Config.Runtime.Planning.Title}
+        subTitle={Locale.Chat.Config.Runtime.Planning.SubTitle}
+      >
+        <input
+          type="checkbox"
+          checked={runtime.enablePlanning ?? true}
+          onChange={(e) => {
+            const enablePlanning = e.currentTarget.checked;
+            updateRuntime(
+              (runtime) => (runtime.enablePlanning = enablePlanning),
+            );
+          }}
+          aria-label="Enable planning"
+        ></input>
+      </ListItem>
+      <ListItem
+        title={Locale.Chat.Config.Runtime.Environs.Title}
+        subTitle={Locale.Chat.Config.Runtime.Environs.SubTitle}
+      >
+        <Input
+          rows={3}
+          value={environsText}
+          placeholder="KEY=value"
+          onChange={(e) => {
+            const text = e.currentTarget.value;
+            setEnvironsText(text);
+            updateRuntime(
+              (runtime) => (runtime.kernelEnvirons = parseEnvirons(text)),
+            );
+          }}
+        />
+      </ListItem>
+      <ListItem
+        title={Locale.Chat.Config.Runtime.Secrets.Title}
+        subTitle={
+          vault.unlocked
+            ? Locale.Chat.Config.Runtime.Secrets.SubTitle
+            : Locale.Chat.Config.Runtime.Secrets.Locked(secretNames.length)
+        }
+      />
+      {vault.unlocked &&
+        vault.secrets.map((secret) => (
+          <ListItem key={secret.name} title={secret.name}>
+            <input
+              type="checkbox"
+              checked={secretNames.includes(secret.name)}
+              onChange={(e) => {
+                const checked = e.currentTarget.checked;
+                updateRuntime(
+                  (runtime) =>
+                    (runtime.secretNames = checked
+                      ? secretNames.concat(secret.name)
+                      : secretNames.filter((name) => name !== secret.name)),
+                );
+              }}
+              aria-label={secret.name}
+            ></input>
+          </ListItem>
+        ))}
+      <ListItem
+        title={Locale.Chat.Config.Runtime.Instructions.Title}
+        subTitle={Locale.Chat.Config.Runtime.Instructions.SubTitle}
+      >
+        <Input
+          rows={3}
+          value={runtime.extraInstructions ?? ""}
+          onChange={(e) => {
+            const extraInstructions = e.currentTarget.value;
+            updateRuntime(
+              (runtime) => (runtime.extraInstructions = extraInstructions),
+            );
+          }}
+        />
+      </ListItem>
+    </List>
+  );
+}
+
 export function SessionConfigModel(props: { onClose: () => void }) {
   const [showPicker, setShowPicker] = useState(false);
   const config = useAppConfig();
@@ -129,6 +297,14 @@ export function SessionConfigModel(props: { onClose: () => void }) {
     chatStore.updateCurrentSession((session) => (session.template = template));
   };
 
+  const updateRuntime = (updater: (runtime: AgentRuntimeSettings) => void) => {
+    const runtime = { ...session.agentRuntime };
+    updater(runtime);
+    chatStore.updateCurrentSession(
+      (session) => (session.agentRuntime = runtime),
+    );
+  };
+
   return (
     <div className="screen-model-container">
       <Modal
@@ -242,6 +418,106 @@ export function SessionConfigModel(props: { onClose: () => void }) {
             ></input>
           </ListItem>
         </List>
+
+        {config.modelClientType === ModelClient.HYPHA_AGENT && (
+          <AgentRuntimeConfig
+            runtime={session.agentRuntime ?? {}}
+            updateRuntime={updateRuntime}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+}
+
+/**
+ * Hand the current session over to another agent, optionally asking the
+ * previous agent for a summary of the work so far
+ */
+export function AgentHandoffModal(props: {
+  from: SessionAgent;
+  to: SessionAgent;
+  onClose: () => void;
+  // Called once the session was handed over, not when cancelled
+  onHandedOff?: () => void;
+}) {
+  const chatStore = useChatStore();
+  const hyphaAgent = useContext(HyphaAgentContext);
+  const [withSummary, setWithSummary] = useState(true);
+  const [summarizing, setSummarizing] = useState(false);
+
+  const handoff = async () => {
+    let summary: string | undefined;
+    if (withSummary && hyphaAgent?.getAgentId()) {
+      setSummarizing(true);
+      try {
+        // The session still points to the previous agent here
+        summary = await hyphaAgent.statelessChatCompletion(
+          chatStore.getMessagesWithMemory().concat(
+            createMessage({
+              role: "user",
+              content: Locale.Store.Prompt.HandoffRequest,
+            }),
+          ),
+        );
+      } catch (error) {
+        console.error("[Chat] Failed to summarize for handoff:", error);
+        showToast(Locale.Chat.Handoff.SummaryFailed);
+      } finally {
+        setSummarizing(false);
+      }
+    }
+    chatStore.handoffSession(props.to, summary?.trim() || undefined);
+    props.onHandedOff?.();
+    showToast(Locale.Chat.Handoff.Done(props.to.name));
+    props.onClose();
+  };
+
+  return (
+    <div className="screen-model-container">
+      <Modal
+        title={Locale.Chat.Handoff.Title}
+        onClose={props.onClose}
+        actions={[
+          <IconButton
+            key="cancel"
+            bordered
+            text={Locale.UI.Cancel}
+            onClick={props.onClose}
+          />,
+          <IconButton
+            type="primary"
+            key="ok"
+            icon={summarizing ? <LoadingButtonIcon /> : <ConfirmIcon />}
+            bordered
+            disabled={summarizing}
+            text={
+              summarizing
+                ? Locale.Chat.Handoff.Summarizing(props.from.name)
+                : Locale.Chat.Handoff.Confirm
+            }
+            onClick={handoff}
+          />,
+        ]}
+      >
+        <List>
+          <ListItem
+            title={Locale.Chat.Handoff.Agents(props.from.name, props.to.name)}
+            subTitle={Locale.Chat.Handoff.SubTitle}
+          />
+          <ListItem
+            title={Locale.Chat.Handoff.Summary}
+            subTitle={Locale.Chat.Handoff.SummaryHint(props.from.name)}
+          >
+            <input
+              type="checkbox"
+              checked={withSummary}
+              disabled={summarizing}
+              onChange={(e) => setWithSummary(e.currentTarget.checked)}
+              aria-label="Handoff summary"
+            ></input>
+          </ListItem>
+        </List>
       </Modal>
     </div>
   );
@@ -455,10 +731,12 @@ function ChatAction(props: {
 }
 
 const FileUploadAction = memo(function FileUploadAction() {
-  const { user, isConnected, uploadFileToProject } = useHyphaStore();
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const { user, isConnected } = useHyphaStore();
+  const projectId = useChatStore((state) => state.currentSession().projectId);
+  const { tasks, addFiles } = useUploadStore();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Uploads started from this action, reported once they settle
+  const pendingRef = useRef(new Set<string>());
 
   const handleClick = useCallback(async () => {
     if (!isConnected || !user) {
@@ -472,52 +750,54 @@ const FileUploadAction = memo(function FileUploadAction() {
   }, [isConnected, user]);
 
   const handleFileChange = useCallback(
-    async (event: React.ChangeEvent<HTMLInputElement>) => {
-      const files = event.target.files;
-      if (!files || files.length === 0) return;
-
-      const file = files[0];
-
-      // File size limit (10MB)
-      const maxSize = 10 * 1024 * 1024;
-      if (file.size > maxSize) {
-        showToast("File too large. Maximum size is 10MB.");
-        return;
-      }
-
-      try {
-        setIsUploading(true);
-        setUploadProgress(0);
-
-        // Upload file with progress tracking using store function
-        await uploadFileToProject(file, (progress: number) => {
-          setUploadProgress(progress);
-        });
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(event.target.files ?? []);
+      if (files.length === 0) return;
+
+      // Large files are uploaded in parts by the upload queue
+      const added = addFiles(
+        files.map((file) => ({ file, path: file.name })),
+        projectId,
+      );
+      added.forEach((task) => pendingRef.current.add(task.id));
 
-        showToast(`File "${file.name}" uploaded successfully!`);
-      } catch (error) {
-        console.error("File upload failed:", error);
-        showToast(
-          `Upload failed: ${error instanceof Error ? error.message : "Unknown error"}`,
-        );
-      } finally {
-        setIsUploading(false);
-        setUploadProgress(0);
-        // Reset file input
-        if (fileInputRef.current) {
-          fileInputRef.current.value = "";
-        }
+      // Reset file input
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
       }
     },
-    [uploadFileToProject],
+    [addFiles, projectId],
   );
 
-  const getText = useMemo(() => {
-    if (isUploading) {
-      return `Uploading... ${uploadProgress}%`;
+  useEffect(() => {
+    for (const task of tasks) {
+      if (!pendingRef.current.has(task.id)) continue;
+      if (task.status === "completed") {
+        pendingRef.current.delete(task.id);
+        showToast(`File "${task.fileName}" uploaded successfully!`);
+      } else if (task.status === "error" || task.status === "cancelled") {
+        pendingRef.current.delete(task.id);
+        showToast(`Upload failed: ${task.error ?? task.status}`);
+      }
     }
-    return Locale.Chat.InputActions.UploadFile;
-  }, [isUploading, uploadProgress]);
+  }, [tasks]);
+
+  const activeTasks = tasks.filter(isUploadActive);
+  const isUploading = activeTasks.length > 0;
+  const uploadProgress = isUploading
+    ? Math.round(
+        (activeTasks.reduce((total, task) => total + task.uploaded, 0) /
+          Math.max(
+            activeTasks.reduce((total, task) => total + task.size, 0),
+            1,
+          )) *
+          100,
+      )
+    : 0;
+
+  const getText = isUploading
+    ? `Uploading... ${uploadProgress}%`
+    : Locale.Chat.InputActions.UploadFile;
 
   const getIcon = useMemo(() => {
     if (isUploading) {
@@ -548,6 +828,7 @@ const FileUploadAction = memo(function FileUploadAction() {
         onChange={handleFileChange}
         style={{ display: "none" }}
         accept="*/*"
+        multiple
         aria-label="Upload file"
       />
       <ChatAction onClick={handleClick} text={getText} icon={getIcon} />
@@ -601,16 +882,28 @@ export function ChatActions(props: {
   const config = useAppConfig();
   const currentModel = config.modelConfig.model;
   const models = config.models;
-  const { resources } = useHyphaStore();
+  const { resources, draftAgents } = useHyphaStore();
+  const session = chatStore.currentSession();
+  const sessionAgent = getSessionAgent(session);
 
   const [showModelSelector, setShowModelSelector] = useState(false);
   const [showUploadImage, setShowUploadImage] = useState(false);
+  const [handoffTarget, setHandoffTarget] = useState<SessionAgent | null>(null);
+
+  // Switch to Hypha Agent client, the session's new agent also becomes the
+  // default agent of new sessions
+  const makeDefaultAgent = (agent: SessionAgent) => {
+    config.update((config) => {
+      config.modelClientType = ModelClient.HYPHA_AGENT;
+    });
+    config.selectAgent(agent.id, agent.name);
+  };
 
   const { setAttachImages, setUploading } = props;
 
   const getCurrentDisplayName = () => {
     if (config.modelClientType === ModelClient.HYPHA_AGENT) {
-      return config.modelConfig.selectedAgent?.name || "";
+      return sessionAgent?.name || "";
     }
     return (
       models.find((m) => m.name === currentModel)?.display_name || currentModel
@@ -618,13 +911,21 @@ export function ChatActions(props: {
   };
 
   useEffect(() => {
-    const show = isVisionModel(currentModel);
+    const show =
+      config.modelClientType === ModelClient.HYPHA_AGENT ||
+      isVisionModel(currentModel);
     setShowUploadImage(show);
     if (!show) {
       setAttachImages([]);
       setUploading(false);
     }
-  }, [currentModel, models, setAttachImages, setUploading]);
+  }, [
+    config.modelClientType,
+    currentModel,
+    models,
+    setAttachImages,
+    setUploading,
+  ]);
 
   return (
     <div className={styles["chat-input-actions"]}>
@@ -683,12 +984,14 @@ export function ChatActions(props: {
           onClose={() => {
             setShowModelSelector(false);
           }}
-          selectedAgent={config.modelConfig.selectedAgent?.id}
+          selectedAgent={sessionAgent?.id}
           onSelectAgent={(agentId: string) => {
             console.log("[Chat] Agent selected in dialog:", agentId);
 
-            // Find the agent resource from resources
-            const agent = resources.find((r: any) => r.id === agentId);
+            // Find the agent resource from drafts and resources
+            const agent = [...draftAgents, ...resources].find(
+              (r: any) => r.id === agentId,
+            );
             if (!agent) {
               showToast(`Agent not found: ${agentId}`);
               return;
@@ -696,23 +999,34 @@ export function ChatActions(props: {
 
             console.log("[Chat] Found agent resource:", agent.manifest.name);
 
-            // Switch to Hypha Agent client and select agent
-            config.update((config) => {
-              config.modelClientType = ModelClient.HYPHA_AGENT;
-            });
-            config.selectAgent(agentId, agent.manifest.name);
+            setShowModelSelector(false);
 
-            console.log("[Chat] Agent selection complete:", {
-              agentId,
-              name: agent.manifest.name,
-              selectedAgent: config.modelConfig.selectedAgent,
-            });
+            const nextAgent = { id: agentId, name: agent.manifest.name };
+            const hasReplies = session.messages.some(
+              (m) => m.role === "assistant" && !m.isError,
+            );
+            if (hasReplies && sessionAgent && sessionAgent.id !== agentId) {
+              setHandoffTarget(nextAgent);
+              return;
+            }
 
+            chatStore.updateCurrentSession(
+              (session) => (session.agent = nextAgent),
+            );
+            makeDefaultAgent(nextAgent);
+            console.log("[Chat] Agent selection complete:", nextAgent);
             showToast(`Selected: ${agent.manifest.name}`);
-            setShowModelSelector(false);
           }}
         />
       )}
+      {handoffTarget && sessionAgent && (
+        <AgentHandoffModal
+          from={sessionAgent}
+          to={handoffTarget}
+          onClose={() => setHandoffTarget(null)}
+          onHandedOff={() => makeDefaultAgent(handoffTarget)}
+        />
+      )}
     </div>
   );
 }
@@ -762,17 +1076,40 @@ function _Chat() {
   const hyphaAgent = useContext(HyphaAgentContext);
 
   const models = config.models;
-  const { resources, isConnected, user, fetchResources } = useHyphaStore();
+  const {
+    resources,
+    draftAgents,
+    isConnected,
+    user,
+    fetchResources,
+    connectionEpoch,
+  } = useHyphaStore();
+  const sessionAgent = getSessionAgent(session);
+
+  // Code the agent wants to run waits here for the user's approval
+  const codeReviews = useCodeReviews();
+
+  useEffect(() => {
+    if (!hyphaAgent) return;
+    hyphaAgent.setCodeReviewer(codeReviews.reviewer);
+    return () => {
+      hyphaAgent.setCodeReviewer(null);
+      codeReviews.rejectAll("The chat was closed");
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hyphaAgent]);
 
   // Memoize selected agent resource to prevent unnecessary re-renders
   const selectedAgentResource = useMemo(() => {
-    const selectedAgent = config.modelConfig.selectedAgent;
-    if (!selectedAgent || !resources || resources.length === 0) return null;
+    const selectedAgent = sessionAgent;
+    if (!selectedAgent) return null;
 
     // Stable comparison using agent ID
     const agentId = selectedAgent.id;
-    return resources.find((r: any) => r.id === agentId) || null;
-  }, [config.modelConfig.selectedAgent?.id, resources.length]); // Use resources.length instead of resources array
+    return (
+      [...draftAgents, ...resources].find((r: any) => r.id === agentId) || null
+    );
+  }, [sessionAgent?.id, resources.length, draftAgents]); // Use resources.length instead of resources array
 
   // Throttled scroll handler for better performance
   const onChatBodyScroll = useDebouncedCallback((e: HTMLElement) => {
@@ -806,12 +1143,12 @@ function _Chat() {
     if (config.modelClientType === ModelClient.HYPHA_AGENT) {
       console.log(
         "[Chat] Resetting agent state for new selection:",
-        config.modelConfig.selectedAgent?.id,
+        sessionAgent?.id,
       );
       setIsAgentReady(false);
       setAgentError(null);
     }
-  }, [config.modelConfig.selectedAgent?.id, config.modelClientType]);
+  }, [sessionAgent?.id, config.modelClientType]);
 
   // prompt hints
   const promptStore = usePromptStore();
@@ -876,7 +1213,8 @@ function _Chat() {
             m.streaming = false;
           }
 
-          if (m.content.length === 0) {
+          // Replies made of tool calls only have no text
+          if (m.content.length === 0 && !m.toolCalls?.length) {
             m.isError = true;
             m.content = prettyObject({
               error: true,
@@ -885,10 +1223,65 @@ function _Chat() {
           }
         }
       });
-      session.messages = session.messages.filter((m) => m.content.length > 0);
+      session.messages = session.messages.filter(
+        (m) => m.content.length > 0 || m.toolCalls?.length,
+      );
     });
   }, []);
 
+  // Recreate the agent once the session's runtime settings were changed, the
+  // settings dialog is closed and no reply is running on the old agent
+  const runtimeKey = JSON.stringify(session.agentRuntime ?? {});
+  const appliedRuntimeRef = useRef({ sessionId: session.id, runtimeKey });
+  useEffect(() => {
+    const applied = appliedRuntimeRef.current;
+    if (applied.sessionId !== session.id) {
+      appliedRuntimeRef.current = { sessionId: session.id, runtimeKey };
+      return;
+    }
+    if (
+      showEditPromptModal ||
+      session.isGenerating ||
+      applied.runtimeKey === runtimeKey
+    ) {
+      return;
+    }
+    appliedRuntimeRef.current = { sessionId: session.id, runtimeKey };
+
+    const agentId = hyphaAgent?.getAgentId();
+    if (!hyphaAgent || !agentId) return;
+    (async () => {
+      console.log(
+        "[Chat] Runtime settings changed, recreating agent:",
+        agentId,
+      );
+      try {
+        await hyphaAgent.destroyAgent(agentId);
+      } catch (error) {
+        console.warn("[Chat] Failed to destroy agent:", error);
+      }
+      createdAgentsRef.current = {};
+      setIsAgentReady(false);
+      showToast(Locale.Chat.Config.Runtime.Restarted);
+    })();
+  }, [
+    session.id,
+    runtimeKey,
+    showEditPromptModal,
+    session.isGenerating,
+    hyphaAgent,
+  ]);
+
+  // Look up the agent again after a reconnect, which also restores a reply
+  // the agent finished while the connection was down
+  const connectionEpochRef = useRef(connectionEpoch);
+  useEffect(() => {
+    if (connectionEpochRef.current === connectionEpoch) return;
+    connectionEpochRef.current = connectionEpoch;
+    createdAgentsRef.current = {};
+    setIsAgentReady(false);
+  }, [connectionEpoch]);
+
   // Clear created agents when switching client types
   useEffect(() => {
     if (config.modelClientType !== ModelClient.HYPHA_AGENT) {
@@ -945,7 +1338,7 @@ function _Chat() {
 
     // If we have a selectedAgent but no selectedAgentResource and resources is not empty,
     // it means resources are still loading
-    const selectedAgent = config.modelConfig.selectedAgent;
+    const selectedAgent = sessionAgent;
     if (selectedAgent && !selectedAgentResource && resources.length > 0) {
       console.log(
         "[Chat] Agent resources loaded, looking for selected agent...",
@@ -974,12 +1367,13 @@ function _Chat() {
             "[Chat] Auto-selecting first available agent:",
             firstAgent.id,
           );
-          config.updateModelConfig({
-            selectedAgent: {
-              id: firstAgent.id,
-              name: firstAgent.manifest.name || firstAgent.name,
-            },
-          });
+          chatStore.updateCurrentSession(
+            (session) =>
+              (session.agent = {
+                id: firstAgent.id,
+                name: firstAgent.manifest.name || firstAgent.name,
+              }),
+          );
           return; // Exit and let the effect re-run with the selected agent
         }
       }
@@ -991,10 +1385,45 @@ function _Chat() {
 
     let cancelled = false;
 
+    // Restore a reply that only reached the agent's persistent session,
+    // e.g. when the page was reloaded while it was streaming
+    const recoverAgentReply = async () => {
+      if (config.agentSessionMode !== AgentSessionMode.Stateful) return;
+      try {
+        const reply = await hyphaAgent.recoverLastReply(
+          session.messages.filter((m) => !m.isError || m.role === "assistant"),
+        );
+        if (!reply || cancelled) return;
+
+        console.log("[Chat] Recovered agent reply from persistent session");
+        chatStore.updateCurrentSession((session) => {
+          const lastMessage = session.messages.at(-1);
+          if (lastMessage?.role === "assistant") {
+            lastMessage.content = reply;
+            lastMessage.streaming = false;
+            lastMessage.isError = false;
+            session.messages = session.messages.concat();
+          } else {
+            session.messages = session.messages.concat(
+              createMessage({
+                role: "assistant",
+                content: reply,
+                model: config.modelConfig.model,
+                agent: sessionAgent,
+              }),
+            );
+          }
+        });
+      } catch (error) {
+        console.warn("[Chat] Failed to recover agent reply:", error);
+      }
+    };
+
     const createOrFindAgent = async () => {
       try {
         // Clear any previous errors
         setAgentError(null);
+        hyphaAgent.setProjectId(session.projectId ?? null);
 
         // Generate the expected agent ID based on session and selected agent resource
         const agentId = `${session.id}@${selectedAgentResource.id.split("/").pop() || selectedAgentResource.id}`;
@@ -1025,6 +1454,7 @@ function _Chat() {
           console.log("[Chat] Found existing agent:", agentId);
           hyphaAgent.setAgentId(agentId);
           createdAgentsRef.current[agentId] = true;
+          await recoverAgentReply();
           if (!cancelled) setIsAgentReady(true);
           return;
         }
@@ -1037,45 +1467,43 @@ function _Chat() {
         if (selectedAgent) {
           if (selectedAgentResource) {
             // Use selected agent configuration with session-based naming
-            agentToCreate = {
-              id: agentId,
-              name: `${selectedAgentResource.manifest?.name || selectedAgent.name} (${session.id.slice(-8)})`,
-              instructions:
-                (selectedAgentResource.manifest as any)?.instructions ||
-                selectedAgentResource.description ||
-                "You are a helpful AI assistant.",
-              kernelType: "PYTHON",
-              autoAttachKernel: true,
-              startupScript:
-                selectedAgentResource.manifest?.startup_script || "",
-              enablePlanning: true,
-              maxSteps: 10,
-            };
+            agentToCreate = createAgentConfig(
+              selectedAgentResource,
+              agentId,
+              session.id.slice(-8),
+              session.agentRuntime,
+            );
           } else {
             // Agent not found in resources, use fallback with stored name
             console.warn(
               "[Chat] Could not find full resource for agent:",
               selectedAgent.id,
             );
-            agentToCreate = {
+            agentToCreate = applyAgentRuntime(
+              {
+                id: agentId,
+                name: `${selectedAgent.name} (${session.id.slice(-8)})`,
+                instructions: "You are a helpful AI assistant.",
+                kernelType: "PYTHON",
+                autoAttachKernel: true,
+                enablePlanning: true,
+                maxSteps: 10,
+              },
+              session.agentRuntime,
+            );
+          }
+        } else {
+          // Create default agent with session-based naming
+          agentToCreate = applyAgentRuntime(
+            {
               id: agentId,
-              name: `${selectedAgent.name} (${session.id.slice(-8)})`,
+              name: `Chat Assistant (${session.id.slice(-8)})`,
               instructions: "You are a helpful AI assistant.",
               kernelType: "PYTHON",
               autoAttachKernel: true,
-              enablePlanning: true,
-              maxSteps: 10,
-            };
-          }
-        } else {
-          // Create default agent with session-based naming
-          agentToCreate = {
-            id: agentId,
-            name: `Chat Assistant (${session.id.slice(-8)})`,
-            instructions: "You are a helpful AI assistant.",
-            kernelType: "PYTHON",
-            autoAttachKernel: true,
-          };
+            },
+            session.agentRuntime,
+          );
         }
 
         console.log(
@@ -1084,7 +1512,13 @@ function _Chat() {
           "with startup script:",
           agentToCreate.startupScript,
         );
-        console.log("[Chat] Agent config:", agentToCreate);
+        console.log("[Chat] Agent config:", redactSecretsDeep(agentToCreate));
+        if (
+          session.agentRuntime?.secretNames?.length &&
+          !useVaultStore.getState().unlocked
+        ) {
+          showToast(Locale.Chat.Config.Runtime.Secrets.NotInjected);
+        }
 
         const newAgent = await hyphaAgent.createAgent(agentToCreate);
         console.log("[Chat] Agent created successfully:", newAgent.id);
@@ -1176,7 +1610,7 @@ function _Chat() {
     isConnected,
     user,
     resources.length, // Use length instead of the array to reduce re-renders
-    config.modelConfig.selectedAgent?.id,
+    sessionAgent?.id,
     isAgentReady,
     // Removed agentError from dependencies to prevent infinite re-runs
   ]);
@@ -1245,7 +1679,10 @@ function _Chat() {
   const handlePaste = useCallback(
     async (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
       const currentModel = config.modelConfig.model;
-      if (!isVisionModel(currentModel)) {
+      if (
+        config.modelClientType !== ModelClient.HYPHA_AGENT &&
+        !isVisionModel(currentModel)
+      ) {
         return;
       }
       const items =
@@ -1283,7 +1720,7 @@ function _Chat() {
         }
       }
     },
-    [attachImages, config.modelConfig.model],
+    [attachImages, config.modelConfig.model, config.modelClientType],
   );
 
   // remember unfinished input
@@ -1349,6 +1786,19 @@ function _Chat() {
     }
   };
 
+  // Secrets of a session can only be redacted while the vault is unlocked,
+  // the agent's kernel may still hold them from before it was locked
+  const checkVaultUnlocked = () => {
+    if (
+      session.agentRuntime?.secretNames?.length &&
+      !useVaultStore.getState().unlocked
+    ) {
+      showToast(Locale.Chat.Config.Runtime.Secrets.LockedChat);
+      return false;
+    }
+    return true;
+  };
+
   const onSubmit = (userInput: string) => {
     if (userInput.trim() === "") return;
 
@@ -1367,6 +1817,7 @@ function _Chat() {
       console.warn("[Chat] Agent not ready yet, please wait...");
       return;
     }
+    if (!checkVaultUnlocked()) return;
 
     if (llm) {
       chatStore.onUserInput(userInput, llm, attachImages);
@@ -1413,6 +1864,14 @@ function _Chat() {
     }, 30);
   };
 
+  // Interrupt the running code cell, the agent continues with its error
+  const onStopToolCall = () => {
+    hyphaAgent?.interruptKernel().catch((error) => {
+      console.error("[Chat] Failed to interrupt kernel:", error);
+      showToast(Locale.Chat.ToolCall.StopFailed);
+    });
+  };
+
   // stop response
   const onUserStop = () => {
     if (llm) {
@@ -1461,6 +1920,58 @@ function _Chat() {
     deleteMessage(msgId);
   };
 
+  // re-execute a tool call's code in the agent kernel, without an LLM turn
+  const onRerunToolCall = async (
+    message: ChatMessage,
+    call: ToolCall,
+    code: string,
+  ) => {
+    if (!hyphaAgent || !checkVaultUnlocked()) return;
+
+    const run: ToolCallRun = {
+      id: nanoid(),
+      code,
+      status: "running",
+      startTime: Date.now(),
+    };
+    const sessionId = session.id;
+    const updateRun = (updater: (run: ToolCallRun) => void) =>
+      chatStore.updateToolCall(
+        sessionId,
+        message.id,
+        call.callId,
+        (toolCall) => {
+          const target = toolCall.reruns?.find((r) => r.id === run.id);
+          if (target) updater(target);
+        },
+      );
+
+    chatStore.updateToolCall(sessionId, message.id, call.callId, (toolCall) => {
+      toolCall.reruns = (toolCall.reruns ?? []).concat(run);
+    });
+
+    try {
+      // The code shown in the chat is redacted, the kernel gets the secrets
+      const result = await hyphaAgent.executeCode(
+        unredactSecrets(code),
+        (output) => updateRun((r) => (r.output = output)),
+      );
+      updateRun((r) => {
+        r.output = result.output;
+        r.displays = result.displays.length ? result.displays : undefined;
+        r.status = result.success ? "completed" : "error";
+        r.endTime = Date.now();
+      });
+    } catch (error: any) {
+      console.error("[Chat] failed to re-run code", error);
+      updateRun((r) => {
+        r.output = error?.message ?? String(error);
+        r.status = "error";
+        r.endTime = Date.now();
+      });
+    }
+  };
+
   const onResend = (message: ChatMessage) => {
     // when it is resending a message
     // 1. for a user's message, find the next bot response
@@ -1468,6 +1979,7 @@ function _Chat() {
     // 3. delete original user input and bot's message
     // 4. resend the user's input
 
+    if (!checkVaultUnlocked()) return;
     const resendingIndex = session.messages.findIndex(
       (m) => m.id === message.id,
     );
@@ -1655,6 +2167,33 @@ function _Chat() {
               />
             </div>
           )}
+          {config.modelClientType === ModelClient.HYPHA_AGENT && (
+            <div className="window-action-button">
+              <IconButton
+                icon={<CompareIcon />}
+                bordered
+                title={Locale.Compare.Toggle}
+                onClick={() => navigate(Path.Compare)}
+              />
+            </div>
+          )}
+          {config.modelClientType === ModelClient.HYPHA_AGENT &&
+            !isMobileScreen && (
+              <div className="window-action-button">
+                <IconButton
+                  icon={<KernelIcon />}
+                  bordered
+                  title={Locale.KernelInspector.Toggle}
+                  onClick={() =>
+                    config.update(
+                      (config) =>
+                        (config.showKernelInspector =
+                          !config.showKernelInspector),
+                    )
+                  }
+                />
+              </div>
+            )}
           <div className="window-action-button">
             <IconButton
               icon={<ShareIcon />}
@@ -1935,7 +2474,7 @@ function _Chat() {
                       {message.role === "assistant" && (
                         <div className={styles["chat-message-role-name"]}>
                           {config.modelClientType === ModelClient.HYPHA_AGENT
-                            ? config.modelConfig.selectedAgent?.name || ""
+                            ? message.agent?.name || sessionAgent?.name || ""
                             : models.find((m) => m.name === message.model)
                               ? models.find((m) => m.name === message.model)!
                                   .display_name
@@ -2026,22 +2565,66 @@ function _Chat() {
                     </div>
                   )}
                   <div className={styles["chat-message-item"]}>
-                    <Markdown
-                      content={getMessageTextContent(message)}
-                      loading={
-                        (message.preview || message.streaming) &&
-                        message.content.length === 0 &&
-                        !isUser
-                      }
-                      onContextMenu={(e) => onRightClick(e, message)}
-                      onDoubleClickCapture={() => {
-                        if (!isMobileScreen) return;
-                        setUserInput(getMessageTextContent(message));
-                      }}
-                      fontSize={fontSize}
-                      parentRef={scrollRef}
-                      defaultShow={i >= messages.length - 6}
-                    />
+                    {splitContentByToolCalls(
+                      getMessageTextContent(message),
+                      message.toolCalls,
+                    ).map((segment, segmentIndex) =>
+                      segment.type === "tool" ? (
+                        <ToolCallCard
+                          key={segment.call.callId}
+                          call={segment.call}
+                          fontSize={fontSize}
+                          onRerun={
+                            config.modelClientType ===
+                              ModelClient.HYPHA_AGENT &&
+                            isAgentReady &&
+                            !message.streaming
+                              ? (code) =>
+                                  onRerunToolCall(message, segment.call, code)
+                              : undefined
+                          }
+                          onStop={
+                            config.modelClientType ===
+                              ModelClient.HYPHA_AGENT && message.streaming
+                              ? onStopToolCall
+                              : undefined
+                          }
+                        />
+                      ) : (
+                        <Markdown
+                          key={segmentIndex}
+                          content={segment.content}
+                          loading={
+                            (message.preview || message.streaming) &&
+                            message.content.length === 0 &&
+                            !message.toolCalls?.length &&
+                            !isUser
+                          }
+                          onContextMenu={(e) => onRightClick(e, message)}
+                          onDoubleClickCapture={() => {
+                            if (!isMobileScreen) return;
+                            setUserInput(getMessageTextContent(message));
+                          }}
+                          fontSize={fontSize}
+                          parentRef={scrollRef}
+                          defaultShow={i >= messages.length - 6}
+                        />
+                      ),
+                    )}
+                    {message.renders?.map((markdown, index) => (
+                      <Markdown
+                        key={`render-${index}`}
+                        content={markdown}
+                        fontSize={fontSize}
+                        parentRef={scrollRef}
+                      />
+                    ))}
+                    {!!message.alternates?.length && (
+                      <AlternateReplies
+                        alternates={message.alternates}
+                        fontSize={fontSize}
+                      />
+                    )}
                     {getMessageImages(message).length == 1 && (
                       <Image
                         className={styles["chat-message-item-image"]}
@@ -2078,6 +2661,9 @@ function _Chat() {
                     )}
                   </div>
                   <div className={styles["chat-message-action-date"]}>
+                    {message.stopReason === "interrupted" && (
+                      <div>{Locale.Chat.Interrupted}</div>
+                    )}
                     {message.role === "assistant" && message.usage && (
                       <>
                         <div>
@@ -2137,6 +2723,24 @@ function _Chat() {
           </div>
         )}
 
+        {/* Warning for images sent to agents without vision support */}
+        {config.modelClientType === ModelClient.HYPHA_AGENT &&
+          attachImages.length > 0 &&
+          !isVisionAgent(selectedAgentResource) && (
+            <div className={styles["login-warning"]}>
+              <div className={styles["login-warning-content"]}>
+                <div className={styles["login-warning-text"]}>
+                  <strong>{Locale.Chat.VisionWarning.Title}</strong>
+                  <p>
+                    {Locale.Chat.VisionWarning.Content(
+                      sessionAgent?.name ?? "",
+                    )}
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
         <ChatActions
           uploadImage={uploadImage}
           setAttachImages={setAttachImages}
@@ -2250,6 +2854,8 @@ function _Chat() {
       {showEditPromptModal && (
         <SessionConfigModel onClose={() => setShowEditPromptModal(false)} />
       )}
+
+      {codeReviews.modal}
     </div>
   );
 }
@@ -0,0 +1,145 @@
+import React, { useCallback, useRef, useState } from "react";
+import { nanoid } from "nanoid";
+
+import styles from "./chat.module.scss";
+import Locale from "../locales";
+import { IconButton } from "./button";
+import { Input, Modal, showToast } from "./ui-lib";
+import {
+  CodeReviewDecision,
+  CodeReviewer,
+  CodeReviewRequest,
+} from "../client/hypha-agent";
+
+import ConfirmIcon from "../icons/confirm.svg";
+import CancelIcon from "../icons/cancel.svg";
+
+interface PendingCodeReview {
+  id: string;
+  request: CodeReviewRequest;
+  resolve: (decision: CodeReviewDecision) => void;
+}
+
+/**
+ * Code an agent wants to run, which the user can approve, edit or reject
+ */
+export function CodeReviewModal(props: {
+  request: CodeReviewRequest;
+  onDecide: (decision: CodeReviewDecision) => void;
+}) {
+  const [code, setCode] = useState(props.request.code);
+  const [reason, setReason] = useState("");
+  const edited = code !== props.request.code;
+
+  const reject = () => props.onDecide({ approved: false, reason });
+
+  return (
+    <div className="screen-model-container">
+      <Modal
+        title={Locale.Chat.CodeReview.Title}
+        onClose={reject}
+        actions={[
+          <IconButton
+            key="reject"
+            icon={<CancelIcon />}
+            bordered
+            text={Locale.Chat.CodeReview.Reject}
+            onClick={reject}
+          />,
+          <IconButton
+            key="approve"
+            type="primary"
+            icon={<ConfirmIcon />}
+            bordered
+            text={
+              edited
+                ? Locale.Chat.CodeReview.RunEdited
+                : Locale.Chat.CodeReview.Approve
+            }
+            onClick={() => props.onDecide({ approved: true, code })}
+          />,
+        ]}
+      >
+        <div className={styles["code-review"]}>
+          {props.request.risks.length > 0 && (
+            <div className={styles["code-review-risks"]}>
+              {Locale.Chat.CodeReview.Risks(
+                props.request.risks
+                  .map((risk) => Locale.Chat.CodeReview.RiskNames[risk])
+                  .join(", "),
+              )}
+            </div>
+          )}
+          <Input
+            rows={14}
+            spellCheck={false}
+            className={styles["code-review-editor"]}
+            value={code}
+            onChange={(e) => setCode(e.currentTarget.value)}
+          />
+          <input
+            type="text"
+            className={styles["code-review-reason"]}
+            placeholder={Locale.Chat.CodeReview.ReasonHint}
+            value={reason}
+            onChange={(e) => setReason(e.currentTarget.value)}
+          />
+        </div>
+      </Modal>
+    </div>
+  );
+}
+
+/**
+ * Queue of code waiting for the user's approval. `reviewer` is handed to
+ * the agent clients and `modal` shows the oldest review.
+ */
+export function useCodeReviews() {
+  const [codeReviews, setCodeReviews] = useState<PendingCodeReview[]>([]);
+  const codeReviewsRef = useRef<PendingCodeReview[]>([]);
+  const updateCodeReviews = (
+    update: (reviews: PendingCodeReview[]) => PendingCodeReview[],
+  ) => {
+    codeReviewsRef.current = update(codeReviewsRef.current);
+    setCodeReviews(codeReviewsRef.current);
+  };
+
+  const reviewer: CodeReviewer = useCallback(
+    (request) =>
+      new Promise((resolve) => {
+        const review = { id: nanoid(), request, resolve };
+        updateCodeReviews((reviews) => reviews.concat(review));
+        request.signal?.addEventListener("abort", () =>
+          updateCodeReviews((reviews) => reviews.filter((r) => r !== review)),
+        );
+      }),
+    [],
+  );
+
+  const decide = (review: PendingCodeReview, decision: CodeReviewDecision) => {
+    review.resolve(decision);
+    updateCodeReviews((reviews) => reviews.filter((r) => r !== review));
+    if (!decision.approved) {
+      showToast(Locale.Chat.CodeReview.Rejected);
+    }
+  };
+
+  // Reject whatever is still waiting, e.g. when the page closes
+  const rejectAll = useCallback((reason: string) => {
+    codeReviewsRef.current.forEach((review) =>
+      review.resolve({ approved: false, reason }),
+    );
+    codeReviewsRef.current = [];
+  }, []);
+
+  const modal =
+    codeReviews.length > 0 ? (
+      <CodeReviewModal
+        key={codeReviews[0].id}
+        request={codeReviews[0].request}
+        onDecide={(decision) => decide(codeReviews[0], decision)}
+      />
+    ) : null;
+
+  return { reviewer, rejectAll, modal };
+}
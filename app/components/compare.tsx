@@ -0,0 +1,424 @@
+import React, { useContext, useEffect, useRef, useState } from "react";
+import dynamic from "next/dynamic";
+import { useNavigate } from "react-router-dom";
+import { ChevronDown, ChevronUp } from "lucide-react";
+
+import styles from "./compare.module.scss";
+import Locale from "../locales";
+import { ErrorBoundary } from "./error";
+import { IconButton } from "./button";
+import { Input, showToast } from "./ui-lib";
+import { ToolCallCard } from "./tool-call";
+import { splitContentByToolCalls } from "../utils/tool-call";
+import { useCodeReviews } from "./code-review";
+import { HyphaAgentContext } from "../context";
+import { HyphaAgentApi, createAgentConfig } from "../client/hypha-agent";
+import { ToolCall } from "../client/api";
+import { appendTerminalOutput } from "../utils/ansi";
+import {
+  AlternateReply,
+  createMessage,
+  isToolCallError,
+  settleToolCalls,
+  useAppConfig,
+  useChatStore,
+} from "../store";
+import { Resource, useHyphaStore } from "../store/hypha";
+import { Path } from "../constant";
+
+import CloseIcon from "../icons/close.svg";
+import SendIcon from "../icons/send-white.svg";
+import StopIcon from "../icons/pause.svg";
+import ConfirmIcon from "../icons/confirm.svg";
+import LoadingIcon from "../icons/three-dots.svg";
+
+const Markdown = dynamic(async () => (await import("./markdown")).Markdown, {
+  loading: () => <LoadingIcon />,
+});
+
+type ColumnStatus = "creating" | "streaming" | "done" | "error";
+
+interface CompareColumn {
+  resource: Resource;
+  agentId: string;
+  status: ColumnStatus;
+  content: string;
+  toolCalls: ToolCall[];
+  error?: string;
+}
+
+const MAX_COMPARED_AGENTS = 4;
+
+/**
+ * Replies of the agents that lost a comparison, shown below the kept reply
+ */
+export function AlternateReplies(props: {
+  alternates: AlternateReply[];
+  fontSize?: number;
+}) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className={styles["alternates"]}>
+      <div
+        className={styles["alternates-header"]}
+        onClick={() => setExpanded(!expanded)}
+      >
+        {Locale.Compare.Alternates(props.alternates.length)}
+        {expanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </div>
+      {expanded &&
+        props.alternates.map((alternate) => (
+          <div key={alternate.agentId} className={styles["alternate"]}>
+            <div className={styles["alternate-name"]}>
+              {alternate.agentName}
+            </div>
+            <Markdown content={alternate.content} fontSize={props.fontSize} />
+          </div>
+        ))}
+    </div>
+  );
+}
+
+export function ComparePage() {
+  const navigate = useNavigate();
+  const config = useAppConfig();
+  const chatStore = useChatStore();
+  const session = chatStore.currentSession();
+  const hyphaAgent = useContext(HyphaAgentContext);
+  const { resources, draftAgents, fetchResources, user, isConnected } =
+    useHyphaStore();
+
+  const agents = [...draftAgents, ...resources].filter((resource) =>
+    resource.manifest.type?.includes("agent"),
+  );
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [prompt, setPrompt] = useState("");
+  const [columns, setColumns] = useState<CompareColumn[]>([]);
+  const clientsRef = useRef<Record<string, HyphaAgentApi>>({});
+  // The chat's reviewer is closed while comparing, clients ask this one
+  const codeReviews = useCodeReviews();
+
+  useEffect(() => {
+    if (isConnected && resources.length === 0) {
+      fetchResources(1);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isConnected]);
+
+  const updateColumn = (
+    agentId: string,
+    updater: (column: CompareColumn) => Partial<CompareColumn>,
+  ) =>
+    setColumns((columns) =>
+      columns.map((column) =>
+        column.agentId === agentId ? { ...column, ...updater(column) } : column,
+      ),
+    );
+
+  // Remove the temporary comparison agents from the engine, and the UI
+  // bridges of their clients from the connection
+  const cleanup = async () => {
+    const clients = clientsRef.current;
+    clientsRef.current = {};
+    await Promise.all(
+      Object.entries(clients).map(async ([agentId, client]) => {
+        try {
+          await client.abort();
+          await client.destroyAgent(agentId);
+        } catch (error) {
+          console.warn("[Compare] Failed to destroy agent", agentId, error);
+        }
+        await client.dispose();
+      }),
+    );
+  };
+
+  useEffect(() => {
+    return () => {
+      codeReviews.rejectAll("The comparison was closed");
+      cleanup();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const runAgent = async (resource: Resource, agentId: string) => {
+    if (!hyphaAgent) return;
+    const client = hyphaAgent.clone();
+    client.setCodeReviewer(codeReviews.reviewer);
+    clientsRef.current[agentId] = client;
+
+    try {
+      client.setProjectId(session.projectId ?? null);
+      await client.createAgent(
+        createAgentConfig(
+          resource,
+          agentId,
+          Locale.Compare.AgentLabel,
+          session.agentRuntime,
+        ),
+      );
+      updateColumn(agentId, () => ({ status: "streaming" }));
+
+      const messages = chatStore
+        .getMessagesWithMemory()
+        .concat(createMessage({ role: "user", content: prompt }));
+
+      let failure: Error | undefined;
+      await client.chat({
+        messages,
+        config: {
+          ...config.modelConfig,
+          cache: config.cacheType,
+          stream: true,
+        },
+        onUpdate: (message) =>
+          updateColumn(agentId, () => ({ content: message })),
+        onFunctionCall: (name, args, callId, contentOffset) =>
+          updateColumn(agentId, (column) => ({
+            toolCalls: column.toolCalls.concat({
+              callId: callId ?? `${agentId}-${column.toolCalls.length}`,
+              name: name ?? "unknown_function",
+              arguments: args,
+              status: "running",
+              startTime: Date.now(),
+              contentOffset,
+            }),
+          })),
+        onExecutionOutput: (text, stream, callId) =>
+          updateColumn(agentId, (column) => ({
+            toolCalls: column.toolCalls.map((call) =>
+              call.callId === callId || (!callId && call.status === "running")
+                ? {
+                    ...call,
+                    liveOutput: appendTerminalOutput(
+                      call.liveOutput,
+                      text,
+                      stream,
+                    ),
+                  }
+                : call,
+            ),
+          })),
+        onFunctionOutput: (content, callId, displays) =>
+          updateColumn(agentId, (column) => ({
+            toolCalls: column.toolCalls.map((call) =>
+              call.callId === callId || (!callId && call.status === "running")
+                ? {
+                    ...call,
+                    output: content,
+                    displays: displays?.length ? displays : undefined,
+                    endTime: Date.now(),
+                    status: isToolCallError(content) ? "error" : "completed",
+                  }
+                : call,
+            ),
+          })),
+        onFinish: (message) => {
+          updateColumn(agentId, (column) => ({
+            content: message,
+            status: "done",
+            toolCalls: settleToolCalls(column.toolCalls) ?? [],
+          }));
+        },
+        onError: (error) => (failure = error),
+      });
+      if (failure) throw failure;
+      // Replies without any content never reach onFinish
+      updateColumn(agentId, (column) =>
+        column.status === "streaming" ? { status: "done" } : {},
+      );
+    } catch (error: any) {
+      console.error("[Compare] Agent failed", agentId, error);
+      updateColumn(agentId, (column) => ({
+        status: "error",
+        error: error?.message ?? String(error),
+        toolCalls: settleToolCalls(column.toolCalls) ?? [],
+      }));
+    }
+  };
+
+  const startComparison = async () => {
+    await cleanup();
+    const selected = agents.filter((agent) => selectedIds.includes(agent.id));
+    const newColumns = selected.map((resource) => ({
+      resource,
+      agentId: `${session.id}@compare-${
+        resource.id.split("/").pop() || resource.id
+      }`,
+      status: "creating" as ColumnStatus,
+      content: "",
+      toolCalls: [],
+    }));
+    setColumns(newColumns);
+    newColumns.forEach((column) => runAgent(column.resource, column.agentId));
+  };
+
+  const stopAll = () => {
+    Object.values(clientsRef.current).forEach((client) => client.abort());
+  };
+
+  const toReply = (column: CompareColumn): AlternateReply => ({
+    agentId: column.resource.id,
+    agentName: column.resource.manifest.name,
+    content: column.content,
+    toolCalls: column.toolCalls.length ? column.toolCalls : undefined,
+  });
+
+  const pickWinner = async (winner: CompareColumn) => {
+    chatStore.saveComparison(
+      prompt,
+      toReply(winner),
+      columns
+        .filter((column) => column !== winner && column.status === "done")
+        .map(toReply),
+    );
+    showToast(Locale.Compare.Kept(winner.resource.manifest.name));
+    navigate(Path.Chat);
+  };
+
+  const isRunning = columns.some(
+    (column) => column.status === "creating" || column.status === "streaming",
+  );
+
+  const toggleAgent = (id: string) =>
+    setSelectedIds((ids) =>
+      ids.includes(id)
+        ? ids.filter((selected) => selected !== id)
+        : ids.length < MAX_COMPARED_AGENTS
+          ? [...ids, id]
+          : ids,
+    );
+
+  return (
+    <ErrorBoundary>
+      <div className={styles["compare-page"]}>
+        <div className="window-header">
+          <div className="window-header-title">
+            <div className="window-header-main-title">
+              {Locale.Compare.Title}
+            </div>
+            <div className="window-header-submai-title">
+              {Locale.Compare.SubTitle(session.topic)}
+            </div>
+          </div>
+          <div className="window-actions">
+            {isRunning && (
+              <div className="window-action-button">
+                <IconButton
+                  icon={<StopIcon />}
+                  text={Locale.Compare.Stop}
+                  bordered
+                  onClick={stopAll}
+                />
+              </div>
+            )}
+            <div className="window-action-button">
+              <IconButton
+                icon={<CloseIcon />}
+                bordered
+                onClick={() => navigate(-1)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className={styles["compare-body"]}>
+          {!user || !isConnected ? (
+            <div className={styles["compare-hint"]}>
+              {Locale.Compare.LoginRequired}
+            </div>
+          ) : (
+            <>
+              <div className={styles["compare-agents"]}>
+                {agents.map((agent) => (
+                  <label key={agent.id} className={styles["compare-agent"]}>
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(agent.id)}
+                      disabled={isRunning}
+                      onChange={() => toggleAgent(agent.id)}
+                    />
+                    {agent.manifest.id_emoji} {agent.manifest.name}
+                  </label>
+                ))}
+              </div>
+              <div className={styles["compare-hint"]}>
+                {Locale.Compare.SelectHint(MAX_COMPARED_AGENTS)}
+              </div>
+
+              <div className={styles["compare-prompt"]}>
+                <Input
+                  rows={3}
+                  value={prompt}
+                  placeholder={Locale.Compare.Prompt}
+                  onChange={(e) => setPrompt(e.currentTarget.value)}
+                />
+                <IconButton
+                  icon={<SendIcon />}
+                  text={Locale.Compare.Send}
+                  type="primary"
+                  disabled={
+                    isRunning || selectedIds.length < 2 || !prompt.trim()
+                  }
+                  onClick={startComparison}
+                />
+              </div>
+
+              <div className={styles["compare-columns"]}>
+                {columns.map((column) => (
+                  <div
+                    key={column.agentId}
+                    className={styles["compare-column"]}
+                  >
+                    <div className={styles["compare-column-header"]}>
+                      <span className={styles["compare-column-name"]}>
+                        {column.resource.manifest.id_emoji}{" "}
+                        {column.resource.manifest.name}
+                      </span>
+                      <span className={styles["compare-column-status"]}>
+                        {Locale.Compare.Status[column.status]}
+                      </span>
+                    </div>
+                    <div className={styles["compare-column-body"]}>
+                      {column.status === "creating" && <LoadingIcon />}
+                      {column.error && (
+                        <div className={styles["compare-error"]}>
+                          {column.error}
+                        </div>
+                      )}
+                      {splitContentByToolCalls(
+                        column.content,
+                        column.toolCalls,
+                      ).map((segment, index) =>
+                        segment.type === "tool" ? (
+                          <ToolCallCard
+                            key={segment.call.callId}
+                            call={segment.call}
+                          />
+                        ) : (
+                          <Markdown key={index} content={segment.content} />
+                        ),
+                      )}
+                    </div>
+                    <div className={styles["compare-column-footer"]}>
+                      <IconButton
+                        icon={<ConfirmIcon />}
+                        text={Locale.Compare.PickWinner}
+                        bordered
+                        disabled={isRunning || column.status !== "done"}
+                        onClick={() => pickWinner(column)}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+      {codeReviews.modal}
+    </ErrorBoundary>
+  );
+}
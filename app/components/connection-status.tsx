@@ -0,0 +1,36 @@
+import React from "react";
+
+import styles from "./connection-status.module.scss";
+import Locale from "../locales";
+import { useHyphaStore } from "../store/hypha";
+
+export function ConnectionStatus(props: { narrow?: boolean }) {
+  const { user, connectionState, reconnectAttempt, reconnect } =
+    useHyphaStore();
+
+  if (!user) return null;
+
+  const label =
+    connectionState === "reconnecting"
+      ? Locale.ConnectionStatus.Reconnecting(reconnectAttempt + 1)
+      : Locale.ConnectionStatus.State[connectionState];
+  const canRetry = connectionState === "offline";
+
+  return (
+    <div
+      className={`${styles["connection-status"]} ${
+        canRetry ? styles["clickable"] : ""
+      }`}
+      title={canRetry ? Locale.ConnectionStatus.Retry : label}
+      onClick={() => {
+        if (!canRetry) return;
+        reconnect().catch((error: any) =>
+          console.error("[ConnectionStatus] Reconnect failed:", error),
+        );
+      }}
+    >
+      <span className={`${styles["dot"]} ${styles[connectionState]}`} />
+      {!props.narrow && <span className={styles["label"]}>{label}</span>}
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ import { IconButton } from "./button";
 import {
   copyToClipboard,
   downloadAs,
+  downloadBlob,
   getMessageImages,
   useMobileScreen,
 } from "../utils";
@@ -26,7 +27,14 @@ import MlcIcon from "../icons/mlc.svg";
 import MlcIconPng from "../icons/mlc.png";
 
 import DownloadIcon from "../icons/download.svg";
-import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  RefObject,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import { MessageSelector, useMessageSelector } from "./message-selector";
 import { Avatar } from "./emoji";
 import dynamic from "next/dynamic";
@@ -34,11 +42,32 @@ import NextImage from "next/image";
 
 import { toBlob, toPng } from "html-to-image";
 import { DEFAULT_TEMPLATE_AVATAR } from "../store/template";
+import { redactSecretsDeep } from "../store/vault";
+import { getActiveProfile } from "../store/connection";
+import { messagesToNotebook } from "../utils/notebook";
+import {
+  BundleSource,
+  ProjectFileInfo,
+  buildReproducibilityBundle,
+  messagesToMarkdown,
+} from "../utils/bundle";
+import { ZipEntry, createZip } from "../utils/zip";
+import { buildStandaloneHtml, printHtml } from "../utils/html-export";
+import { getSessionAgent } from "../store/chat";
+import { useHyphaStore } from "../store/hypha";
+import { HyphaAgentContext } from "../context";
+import {
+  AgentKernelType,
+  HyphaAgentApi,
+  buildNotebookSetupScript,
+} from "../client/hypha-agent";
 
 import { prettyObject } from "../utils/format";
 import { EXPORT_MESSAGE_CLASS_NAME } from "../constant";
 import { getClientConfig } from "../config/client";
 import { getMessageTextContent } from "../utils";
+import { ToolCallCard } from "./tool-call";
+import { splitContentByToolCalls } from "../utils/tool-call";
 
 const Markdown = dynamic(async () => (await import("./markdown")).Markdown, {
   loading: () => <LoadingIcon />,
@@ -148,12 +177,21 @@ export function MessageExporter() {
   ];
   const { currentStep, setCurrentStepIndex, currentStepIndex } =
     useSteps(steps);
-  const formats = ["text", "image", "json"] as const;
+  const formats = [
+    "text",
+    "image",
+    "html",
+    "pdf",
+    "json",
+    "ipynb",
+    "zip",
+  ] as const;
   type ExportFormat = (typeof formats)[number];
 
   const [exportConfig, setExportConfig] = useState({
     format: "image" as ExportFormat,
     includeContext: true,
+    includeSetup: true,
   });
 
   function updateExportConfig(updater: (config: typeof exportConfig) => void) {
@@ -171,7 +209,7 @@ export function MessageExporter() {
       ret.push(...session.template.context);
     }
     ret.push(...session.messages.filter((m) => selection.has(m.id)));
-    return ret;
+    return redactSecretsDeep(ret);
   }, [
     exportConfig.includeContext,
     session.messages,
@@ -187,6 +225,35 @@ export function MessageExporter() {
       return (
         <JsonPreviewer messages={selectedMessages} topic={session.topic} />
       );
+    } else if (
+      exportConfig.format === "html" ||
+      exportConfig.format === "pdf"
+    ) {
+      return (
+        <DocumentPreviewer
+          messages={selectedMessages}
+          topic={session.topic}
+          format={exportConfig.format}
+        />
+      );
+    } else if (exportConfig.format === "ipynb") {
+      return (
+        <NotebookPreviewer
+          messages={selectedMessages}
+          topic={session.topic}
+          projectId={session.projectId}
+          kernelType={session.agentRuntime?.kernelType}
+          includeSetup={exportConfig.includeSetup}
+        />
+      );
+    } else if (exportConfig.format === "zip") {
+      return (
+        <BundlePreviewer
+          messages={selectedMessages}
+          topic={session.topic}
+          includeSetup={exportConfig.includeSetup}
+        />
+      );
     } else {
       return (
         <ImagePreviewer messages={selectedMessages} topic={session.topic} />
@@ -220,7 +287,7 @@ export function MessageExporter() {
             >
               {formats.map((f) => (
                 <option key={f} value={f}>
-                  {f}
+                  {Locale.Export.Format.Names[f] ?? f}
                 </option>
               ))}
             </Select>
@@ -239,6 +306,23 @@ export function MessageExporter() {
               }}
             ></input>
           </ListItem>
+          {(exportConfig.format === "ipynb" ||
+            exportConfig.format === "zip") && (
+            <ListItem
+              title={Locale.Export.IncludeSetup.Title}
+              subTitle={Locale.Export.IncludeSetup.SubTitle}
+            >
+              <input
+                type="checkbox"
+                checked={exportConfig.includeSetup}
+                onChange={(e) => {
+                  updateExportConfig(
+                    (config) => (config.includeSetup = e.currentTarget.checked),
+                  );
+                }}
+              ></input>
+            </ListItem>
+          )}
         </List>
         <MessageSelector
           selection={selection}
@@ -310,15 +394,128 @@ function ExportAvatar(props: { avatar: string }) {
   return <Avatar avatar={props.avatar} />;
 }
 
-export function ImagePreviewer(props: {
+// The conversation as rendered by the image, HTML and PDF exports
+function ConversationPreview(props: {
   messages: ChatMessage[];
-  topic: string;
+  previewRef: RefObject<HTMLDivElement>;
 }) {
   const chatStore = useChatStore();
   const session = chatStore.currentSession();
   const template = session.template;
   const config = useAppConfig();
 
+  return (
+    <div
+      className={`${styles["preview-body"]} ${styles["default-theme"]}`}
+      ref={props.previewRef}
+    >
+      <div className={styles["chat-info"]}>
+        <div className={styles["logo"] + " no-dark"}>
+          <MlcIcon />
+        </div>
+
+        <div>
+          <div className={styles["main-title"]}>Research Navigator</div>
+          <div className={styles["sub-title"]}>{window.location.host}</div>
+        </div>
+        <div>
+          <div className={styles["chat-info-item"]}>
+            {Locale.Exporter.Model}: {config.modelConfig.model}
+          </div>
+          <div className={styles["chat-info-item"]}>
+            {Locale.Exporter.Messages}: {props.messages.length}
+          </div>
+          <div className={styles["chat-info-item"]}>
+            {Locale.Exporter.Topic}: {session.topic}
+          </div>
+          <div className={styles["chat-info-item"]}>
+            {Locale.Exporter.Time}:{" "}
+            {new Date(
+              props.messages.at(-1)?.date ?? Date.now(),
+            ).toLocaleString()}
+          </div>
+        </div>
+      </div>
+      {props.messages.map((m, i) => {
+        return (
+          <div
+            className={styles["message"] + " " + styles["message-" + m.role]}
+            key={i}
+          >
+            {m.role !== "user" && (
+              <div className={styles["avatar"]}>
+                <ExportAvatar avatar={template.avatar} />
+              </div>
+            )}
+
+            <div className={styles["body"]}>
+              {splitContentByToolCalls(
+                getMessageTextContent(m),
+                m.toolCalls,
+              ).map((segment, index) =>
+                segment.type === "tool" ? (
+                  <ToolCallCard
+                    key={segment.call.callId}
+                    call={segment.call}
+                    fontSize={config.fontSize}
+                    defaultExpanded
+                  />
+                ) : (
+                  <Markdown
+                    key={index}
+                    content={segment.content}
+                    fontSize={config.fontSize}
+                    defaultShow
+                  />
+                ),
+              )}
+              {m.renders?.map((render, index) => (
+                <Markdown
+                  key={`render-${index}`}
+                  content={render}
+                  fontSize={config.fontSize}
+                  defaultShow
+                />
+              ))}
+              {getMessageImages(m).length == 1 && (
+                <img
+                  key={i}
+                  src={getMessageImages(m)[0].url}
+                  alt="message"
+                  className={styles["message-image"]}
+                />
+              )}
+              {getMessageImages(m).length > 1 && (
+                <div
+                  className={styles["message-images"]}
+                  style={
+                    {
+                      "--image-count": getMessageImages(m).length,
+                    } as React.CSSProperties
+                  }
+                >
+                  {getMessageImages(m).map(({ url: src }, i) => (
+                    <img
+                      key={i}
+                      src={src}
+                      alt="message"
+                      className={styles["message-image-multi"]}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function ImagePreviewer(props: {
+  messages: ChatMessage[];
+  topic: string;
+}) {
   const previewRef = useRef<HTMLDivElement>(null);
 
   const copy = () => {
@@ -385,87 +582,65 @@ export function ImagePreviewer(props: {
         showCopy={!isMobile}
         messages={props.messages}
       />
-      <div
-        className={`${styles["preview-body"]} ${styles["default-theme"]}`}
-        ref={previewRef}
-      >
-        <div className={styles["chat-info"]}>
-          <div className={styles["logo"] + " no-dark"}>
-            <MlcIcon />
-          </div>
+      <ConversationPreview messages={props.messages} previewRef={previewRef} />
+    </div>
+  );
+}
 
-          <div>
-            <div className={styles["main-title"]}>Research Navigator</div>
-            <div className={styles["sub-title"]}>{window.location.host}</div>
-          </div>
-          <div>
-            <div className={styles["chat-info-item"]}>
-              {Locale.Exporter.Model}: {config.modelConfig.model}
-            </div>
-            <div className={styles["chat-info-item"]}>
-              {Locale.Exporter.Messages}: {props.messages.length}
-            </div>
-            <div className={styles["chat-info-item"]}>
-              {Locale.Exporter.Topic}: {session.topic}
-            </div>
-            <div className={styles["chat-info-item"]}>
-              {Locale.Exporter.Time}:{" "}
-              {new Date(
-                props.messages.at(-1)?.date ?? Date.now(),
-              ).toLocaleString()}
-            </div>
-          </div>
-        </div>
-        {props.messages.map((m, i) => {
-          return (
-            <div
-              className={styles["message"] + " " + styles["message-" + m.role]}
-              key={i}
-            >
-              {m.role !== "user" && (
-                <div className={styles["avatar"]}>
-                  <ExportAvatar avatar={template.avatar} />
-                </div>
-              )}
+// Standalone HTML file, or a PDF printed from it with page breaks
+export function DocumentPreviewer(props: {
+  messages: ChatMessage[];
+  topic: string;
+  format: "html" | "pdf";
+}) {
+  const previewRef = useRef<HTMLDivElement>(null);
+  const [loading, setLoading] = useState(false);
 
-              <div className={styles["body"]}>
-                <Markdown
-                  content={getMessageTextContent(m)}
-                  fontSize={config.fontSize}
-                  defaultShow
-                />
-                {getMessageImages(m).length == 1 && (
-                  <img
-                    key={i}
-                    src={getMessageImages(m)[0].url}
-                    alt="message"
-                    className={styles["message-image"]}
-                  />
-                )}
-                {getMessageImages(m).length > 1 && (
-                  <div
-                    className={styles["message-images"]}
-                    style={
-                      {
-                        "--image-count": getMessageImages(m).length,
-                      } as React.CSSProperties
-                    }
-                  >
-                    {getMessageImages(m).map(({ url: src }, i) => (
-                      <img
-                        key={i}
-                        src={src}
-                        alt="message"
-                        className={styles["message-image-multi"]}
-                      />
-                    ))}
-                  </div>
-                )}
-              </div>
-            </div>
+  const render = async (print: boolean) => {
+    const dom = previewRef.current;
+    if (!dom) return;
+    return buildStandaloneHtml(dom, props.topic, { print });
+  };
+
+  const copy = async () => {
+    const html = await render(false);
+    if (html) copyToClipboard(html);
+  };
+
+  const download = async () => {
+    if (loading) return;
+    setLoading(true);
+    try {
+      if (props.format === "pdf") {
+        showToast(Locale.Export.Document.Printing);
+        const html = await render(true);
+        if (html) await printHtml(html);
+      } else {
+        const html = await render(false);
+        if (html) {
+          downloadBlob(
+            new Blob([html], { type: "text/html" }),
+            `${props.topic}.html`,
           );
-        })}
-      </div>
+        }
+      }
+    } catch (error) {
+      console.error("[Exporter] Failed to export document:", error);
+      showToast(Locale.Download.Failed);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className={styles["image-previewer"]}>
+      <PreviewActions
+        copy={copy}
+        download={download}
+        showCopy={props.format === "html"}
+        messages={props.messages}
+      />
+      <ConversationPreview messages={props.messages} previewRef={previewRef} />
     </div>
   );
 }
@@ -474,17 +649,7 @@ export function MarkdownPreviewer(props: {
   messages: ChatMessage[];
   topic: string;
 }) {
-  const mdText =
-    `# ${props.topic}\n\n` +
-    props.messages
-      .map((m) => {
-        return m.role === "user"
-          ? `## ${Locale.Export.MessageFromYou}:\n${getMessageTextContent(m)}`
-          : `## ${Locale.Export.MessageFromWebLLM}:\n${getMessageTextContent(
-              m,
-            ).trim()}`;
-      })
-      .join("\n\n");
+  const mdText = messagesToMarkdown(props.messages, props.topic);
 
   const copy = () => {
     copyToClipboard(mdText);
@@ -547,3 +712,240 @@ export function JsonPreviewer(props: {
     </>
   );
 }
+
+export function NotebookPreviewer(props: {
+  messages: ChatMessage[];
+  topic: string;
+  projectId?: string;
+  kernelType?: AgentKernelType;
+  includeSetup: boolean;
+}) {
+  const notebook = useMemo(() => {
+    const { serverUrl, workspace } = getActiveProfile();
+    const kernelType = props.kernelType ?? "PYTHON";
+    // The setup script is written in Python
+    return messagesToNotebook(
+      props.messages,
+      props.topic,
+      props.includeSetup && kernelType === "PYTHON"
+        ? buildNotebookSetupScript(serverUrl, workspace, props.projectId)
+        : undefined,
+      kernelType,
+    );
+  }, [
+    props.messages,
+    props.topic,
+    props.projectId,
+    props.kernelType,
+    props.includeSetup,
+  ]);
+
+  const language = notebook.metadata.language_info.name;
+  const mdText = notebook.cells
+    .map((cell) =>
+      cell.cell_type === "code"
+        ? "```" + language + "\n" + cell.source + "\n```"
+        : cell.source,
+    )
+    .join("\n\n");
+
+  const copy = () => {
+    copyToClipboard(JSON.stringify(notebook));
+  };
+  const download = () => {
+    downloadAs(JSON.stringify(notebook, null, 1), `${props.topic}.ipynb`);
+  };
+
+  return (
+    <>
+      <PreviewActions
+        copy={copy}
+        download={download}
+        showCopy={false}
+        messages={props.messages}
+      />
+      <div className="markdown-body">
+        <Markdown content={mdText} />
+      </div>
+    </>
+  );
+}
+
+// Project files with the files of their directories, as paths
+async function listProjectFilesRecursive(
+  projectId?: string,
+  dirPath?: string,
+): Promise<ProjectFileInfo[]> {
+  const files = await useHyphaStore
+    .getState()
+    .listProjectFiles(dirPath, projectId);
+  const result: ProjectFileInfo[] = [];
+  for (const file of files) {
+    const name = dirPath ? `${dirPath}/${file.name}` : file.name;
+    if (file.type === "directory") {
+      result.push(...(await listProjectFilesRecursive(projectId, name)));
+    } else {
+      result.push({
+        name,
+        size: file.size,
+        last_modified: file.last_modified,
+      });
+    }
+  }
+  return result;
+}
+
+async function collectBundleSource(
+  messages: ChatMessage[],
+  topic: string,
+  includeSetup: boolean,
+  hyphaAgent?: HyphaAgentApi,
+): Promise<BundleSource> {
+  const session = useChatStore.getState().currentSession();
+  const hyphaStore = useHyphaStore.getState();
+  const notes: string[] = [];
+  const kernelType = session.agentRuntime?.kernelType ?? "PYTHON";
+
+  const agent = getSessionAgent(session);
+  const resource = agent
+    ? hyphaStore.resources.find((r) => r.id === agent.id)
+    : undefined;
+  if (!agent) {
+    notes.push("No agent was selected for the session.");
+  } else if (!resource) {
+    notes.push(`The manifest of agent ${agent.id} was not loaded.`);
+  }
+
+  let packages: BundleSource["packages"];
+  if (kernelType !== "PYTHON") {
+    notes.push("Kernel packages are only listed for Python kernels.");
+  } else if (hyphaAgent?.getAgentId()) {
+    try {
+      packages = (await hyphaAgent.inspectKernel()).packages;
+    } catch (error: any) {
+      console.error("[Exporter] Failed to inspect kernel:", error);
+      notes.push(
+        `Kernel packages could not be listed: ${error?.message ?? error}`,
+      );
+    }
+  } else {
+    notes.push("Kernel packages were not listed, no agent kernel was running.");
+  }
+
+  let projectFiles: ProjectFileInfo[] | undefined;
+  let projectVersion: { version: string | null; staged: boolean } | undefined;
+  if (hyphaStore.isConnected) {
+    try {
+      projectFiles = await listProjectFilesRecursive(session.projectId);
+    } catch (error: any) {
+      console.error("[Exporter] Failed to list project files:", error);
+      notes.push(
+        `Project files could not be listed: ${error?.message ?? error}`,
+      );
+    }
+    try {
+      projectVersion = await hyphaStore.getProjectVersion(session.projectId);
+    } catch (error: any) {
+      console.error("[Exporter] Failed to read project version:", error);
+      notes.push(
+        `The project version could not be read: ${error?.message ?? error}`,
+      );
+    }
+  } else {
+    notes.push("Project files were not listed, the chat was not connected.");
+  }
+
+  const { serverUrl, workspace } = getActiveProfile();
+  return {
+    topic,
+    messages,
+    agent,
+    resource,
+    kernelType,
+    packages,
+    projectId: session.projectId ?? hyphaStore.defaultProject ?? undefined,
+    projectVersion: projectVersion?.version,
+    projectStaged: projectVersion?.staged,
+    projectFiles,
+    setupScript:
+      includeSetup && kernelType === "PYTHON"
+        ? buildNotebookSetupScript(serverUrl, workspace, session.projectId)
+        : undefined,
+    notes,
+    exportedAt: new Date(),
+  };
+}
+
+const formatSize = (entry: ZipEntry) => {
+  const bytes =
+    typeof entry.content === "string"
+      ? new TextEncoder().encode(entry.content).length
+      : entry.content.length;
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+};
+
+export function BundlePreviewer(props: {
+  messages: ChatMessage[];
+  topic: string;
+  includeSetup: boolean;
+}) {
+  const hyphaAgent = useContext(HyphaAgentContext);
+  const [entries, setEntries] = useState<ZipEntry[]>();
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(undefined);
+    setError(undefined);
+    collectBundleSource(
+      props.messages,
+      props.topic,
+      props.includeSetup,
+      hyphaAgent,
+    )
+      .then((source) => {
+        if (!cancelled) setEntries(buildReproducibilityBundle(source));
+      })
+      .catch((error) => {
+        console.error("[Exporter] Failed to build bundle:", error);
+        if (!cancelled) setError(error?.message ?? String(error));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [props.messages, props.topic, props.includeSetup, hyphaAgent]);
+
+  const download = () => {
+    if (!entries) return;
+    downloadBlob(createZip(entries), `${props.topic}.zip`);
+  };
+
+  return (
+    <>
+      <PreviewActions
+        copy={() => {}}
+        download={download}
+        showCopy={false}
+        messages={props.messages}
+      />
+      {entries ? (
+        <div className="markdown-body">
+          <pre className={styles["export-content"]}>
+            {entries
+              .map((entry) => `${entry.name} (${formatSize(entry)})`)
+              .join("\n")}
+          </pre>
+        </div>
+      ) : error ? (
+        <div className={styles["bundle-loading"]}>
+          {Locale.Export.Bundle.Failed(error)}
+        </div>
+      ) : (
+        <div className={styles["bundle-loading"]}>
+          <LoadingIcon />
+          {Locale.Export.Bundle.Collecting}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,651 @@
+import React, {
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { useNavigate } from "react-router-dom";
+
+import styles from "./file-browser.module.scss";
+import Locale from "../locales";
+import { ErrorBoundary } from "./error";
+import { IconButton } from "./button";
+import { Modal, Select, showConfirm, showQuestion, showToast } from "./ui-lib";
+import { useHyphaStore } from "../store/hypha";
+import { useChatStore } from "../store";
+import { Path, UNFINISHED_INPUT } from "../constant";
+import { HyphaAgentContext } from "../context";
+import { isUploadActive, useUploadStore } from "../store/upload";
+import { UploadQueue, formatBytes } from "./upload-queue";
+
+import CloseIcon from "../icons/close.svg";
+import ReloadIcon from "../icons/reload.svg";
+import UploadIcon from "../icons/upload.svg";
+import DownloadIcon from "../icons/download.svg";
+import DeleteIcon from "../icons/delete.svg";
+import RenameIcon from "../icons/rename.svg";
+import EyeIcon from "../icons/eye.svg";
+import ChatIcon from "../icons/chat.svg";
+import ConfirmIcon from "../icons/confirm.svg";
+import LeftIcon from "../icons/left.svg";
+import AddIcon from "../icons/add.svg";
+import LoadingIcon from "../icons/three-dots.svg";
+
+interface ProjectFile {
+  name: string;
+  type: "file" | "directory";
+  size?: number;
+  last_modified?: number;
+}
+
+interface UploadItem {
+  file: File;
+  path: string;
+}
+
+const TEXT_EXTENSIONS = [
+  "txt",
+  "md",
+  "json",
+  "py",
+  "js",
+  "ts",
+  "yaml",
+  "yml",
+  "xml",
+  "html",
+  "log",
+  "ini",
+  "toml",
+  "sh",
+];
+const TABLE_EXTENSIONS = ["csv", "tsv"];
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "webp", "svg", "bmp"];
+const MAX_PREVIEW_BYTES = 512 * 1024;
+const MAX_PREVIEW_ROWS = 100;
+
+const getExtension = (name: string) =>
+  name.includes(".") ? name.split(".").pop()!.toLowerCase() : "";
+
+const joinPath = (dir: string, name: string) => (dir ? `${dir}/${name}` : name);
+
+function formatDate(timestamp?: number) {
+  if (!timestamp) return "";
+  // The artifact manager reports seconds, not milliseconds
+  const ms = timestamp < 1e12 ? timestamp * 1000 : timestamp;
+  return new Date(ms).toLocaleString();
+}
+
+function parseTable(text: string, delimiter: string) {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0)
+    .slice(0, MAX_PREVIEW_ROWS + 1)
+    .map((line) => line.split(delimiter));
+}
+
+/**
+ * Collect the files of a dropped folder, keeping their relative paths
+ */
+async function readEntry(
+  entry: FileSystemEntry,
+  parent = "",
+): Promise<UploadItem[]> {
+  const path = joinPath(parent, entry.name);
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject),
+    );
+    return [{ file, path }];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns results in batches until it yields an empty list
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject),
+    );
+    if (batch.length === 0) break;
+    entries.push(...batch);
+  }
+  const nested = await Promise.all(entries.map((e) => readEntry(e, path)));
+  return nested.flat();
+}
+
+function FilePreview(props: { path: string; url: string }) {
+  const extension = getExtension(props.path);
+  const isImage = IMAGE_EXTENSIONS.includes(extension);
+  const isTable = TABLE_EXTENSIONS.includes(extension);
+  const isText = isTable || TEXT_EXTENSIONS.includes(extension);
+
+  const [text, setText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isText) return;
+    fetch(props.url, { headers: { Range: `bytes=0-${MAX_PREVIEW_BYTES}` } })
+      .then((res) => {
+        if (!res.ok) throw new Error(`Status ${res.status}`);
+        return res.text();
+      })
+      .then((content) => setText(content.slice(0, MAX_PREVIEW_BYTES)))
+      .catch((e) => setError(e?.message ?? String(e)));
+  }, [props.url, isText]);
+
+  if (isImage) {
+    // eslint-disable-next-line @next/next/no-img-element
+    return <img className={styles["preview-image"]} src={props.url} alt="" />;
+  }
+  if (!isText) {
+    return <div>{Locale.FileBrowser.PreviewUnsupported}</div>;
+  }
+  if (error) {
+    return <div className={styles["file-error"]}>{error}</div>;
+  }
+  if (text === null) {
+    return <LoadingIcon />;
+  }
+  if (isTable) {
+    const rows = parseTable(text, extension === "tsv" ? "\t" : ",");
+    const [header, ...body] = rows;
+    return (
+      <div className={styles["preview-table"]}>
+        <table>
+          <thead>
+            <tr>{header?.map((cell, i) => <th key={i}>{cell}</th>)}</tr>
+          </thead>
+          <tbody>
+            {body.map((row, i) => (
+              <tr key={i}>
+                {row.map((cell, j) => (
+                  <td key={j}>{cell}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {body.length >= MAX_PREVIEW_ROWS && (
+          <div className={styles["file-hint"]}>
+            {Locale.FileBrowser.PreviewTruncated(MAX_PREVIEW_ROWS)}
+          </div>
+        )}
+      </div>
+    );
+  }
+  return <pre className={styles["preview-text"]}>{text}</pre>;
+}
+
+export function FileBrowser() {
+  const navigate = useNavigate();
+  const chatStore = useChatStore();
+  const hyphaAgent = useContext(HyphaAgentContext);
+  const hyphaStore = useHyphaStore();
+  const { user, isConnected, projects, defaultProject } = hyphaStore;
+  const session = chatStore.currentSession();
+  const projectId = session.projectId ?? defaultProject ?? undefined;
+
+  const [dir, setDir] = useState("");
+  const [files, setFiles] = useState<ProjectFile[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [dragOver, setDragOver] = useState(false);
+  const [preview, setPreview] = useState<{ path: string; url: string }>();
+
+  const uploadStore = useUploadStore();
+  const completedUploads = uploadStore.tasks.filter(
+    (task) => task.status === "completed",
+  ).length;
+  const activeUploads = uploadStore.tasks.filter(isUploadActive).length;
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    if (!isConnected || !user) return;
+    setLoading(true);
+    try {
+      await hyphaStore.initializeDefaultProject();
+      const list: ProjectFile[] = await hyphaStore.listProjectFiles(
+        dir,
+        session.projectId,
+      );
+      setFiles(
+        [...list].sort((a, b) =>
+          a.type === b.type
+            ? a.name.localeCompare(b.name)
+            : a.type === "directory"
+              ? -1
+              : 1,
+        ),
+      );
+    } catch (e: any) {
+      console.error("[FileBrowser] Failed to list files", e);
+      showToast(e?.message ?? String(e));
+    } finally {
+      setLoading(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dir, isConnected, user, session.projectId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, completedUploads]);
+
+  useEffect(() => {
+    if (isConnected && user) {
+      hyphaStore.listProjects();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isConnected, user]);
+
+  // Bind a project to the current session and tell a running agent kernel
+  const switchProject = async (id: string | undefined) => {
+    const bound = id === defaultProject ? undefined : id;
+    chatStore.updateCurrentSession((session) => (session.projectId = bound));
+    setDir("");
+    try {
+      await hyphaAgent?.updateKernelProject(bound ?? null);
+    } catch (e: any) {
+      console.warn("[FileBrowser] Failed to update kernel project", e);
+    }
+  };
+
+  const createProject = async () => {
+    const name = (
+      await showQuestion(Locale.FileBrowser.Project.NewName, "", 1)
+    )?.trim();
+    if (!name) return;
+    try {
+      const project = await hyphaStore.createProject(name);
+      await switchProject(project.id);
+      showToast(Locale.FileBrowser.Project.Created(name));
+    } catch (e: any) {
+      showToast(e?.message ?? String(e));
+    }
+  };
+
+  const deleteProject = async () => {
+    const project = projects.find((p) => p.id === projectId);
+    if (!project || project.isDefault) return;
+    if (
+      !(await showConfirm(
+        Locale.FileBrowser.Project.ConfirmDelete(project.name),
+      ))
+    ) {
+      return;
+    }
+    try {
+      await hyphaStore.deleteProject(project.id);
+      chatStore.unbindProject(project.id);
+      await switchProject(undefined);
+    } catch (e: any) {
+      showToast(e?.message ?? String(e));
+    }
+  };
+
+  const uploadItems = (items: UploadItem[]) => {
+    if (items.length === 0) return;
+    uploadStore.addFiles(
+      items.map((item) => ({
+        file: item.file,
+        path: joinPath(dir, item.path),
+      })),
+      session.projectId,
+    );
+  };
+
+  const onInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files ?? []);
+    uploadItems(
+      selected.map((file) => ({
+        file,
+        // Folder inputs report the path relative to the chosen folder
+        path: file.webkitRelativePath || file.name,
+      })),
+    );
+    event.target.value = "";
+  };
+
+  const onDrop = async (event: React.DragEvent) => {
+    event.preventDefault();
+    setDragOver(false);
+    const entries = Array.from(event.dataTransfer.items)
+      .map((item) => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+    const items = entries.length
+      ? (await Promise.all(entries.map((entry) => readEntry(entry)))).flat()
+      : Array.from(event.dataTransfer.files).map((file) => ({
+          file,
+          path: file.name,
+        }));
+    uploadItems(items);
+  };
+
+  const openPreview = async (path: string) => {
+    try {
+      setPreview({
+        path,
+        url: await hyphaStore.getProjectFileUrl(path, session.projectId),
+      });
+    } catch (e: any) {
+      showToast(e?.message ?? String(e));
+    }
+  };
+
+  const download = async (path: string) => {
+    try {
+      const url = await hyphaStore.getProjectFileUrl(path, session.projectId);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = path.split("/").pop() ?? path;
+      link.target = "_blank";
+      link.click();
+    } catch (e: any) {
+      showToast(e?.message ?? String(e));
+    }
+  };
+
+  const rename = async (path: string) => {
+    const newPath = (
+      await showQuestion(Locale.FileBrowser.RenameTo, path, 1)
+    )?.trim();
+    if (!newPath || newPath === path) return;
+    setLoading(true);
+    try {
+      await hyphaStore.renameProjectFile(path, newPath, session.projectId);
+    } catch (e: any) {
+      showToast(e?.message ?? String(e));
+    }
+    refresh();
+  };
+
+  const remove = async (path: string) => {
+    if (!(await showConfirm(Locale.FileBrowser.ConfirmDelete(path)))) return;
+    setLoading(true);
+    try {
+      await hyphaStore.removeProjectFile(path, session.projectId);
+    } catch (e: any) {
+      showToast(e?.message ?? String(e));
+    }
+    refresh();
+  };
+
+  const commit = async () => {
+    const comment = await showQuestion(Locale.FileBrowser.CommitComment);
+    if (comment === null) return;
+    try {
+      await hyphaStore.commitProject(
+        comment.trim() || undefined,
+        session.projectId,
+      );
+      showToast(Locale.FileBrowser.Committed);
+    } catch (e: any) {
+      showToast(e?.message ?? String(e));
+    }
+  };
+
+  // Hand the reference to the chat input through the unfinished input
+  // slot, which the chat page restores when it mounts
+  const insertToChat = (path: string) => {
+    const session = chatStore.currentSession();
+    const key = UNFINISHED_INPUT(session.id);
+    const existing = localStorage.getItem(key);
+    const reference = Locale.FileBrowser.FileReference(path);
+    localStorage.setItem(
+      key,
+      existing ? `${existing}\n${reference}` : reference,
+    );
+    navigate(Path.Chat);
+  };
+
+  return (
+    <ErrorBoundary>
+      <div className={styles["file-browser"]}>
+        <div className="window-header">
+          <div className="window-header-title">
+            <div className="window-header-main-title">
+              {Locale.FileBrowser.Title}
+            </div>
+            <div className="window-header-submai-title">
+              {Locale.FileBrowser.SubTitle(
+                files.length,
+                projects.find((p) => p.id === projectId)?.name ?? "",
+              )}
+            </div>
+          </div>
+
+          <div className="window-actions">
+            <div className="window-action-button">
+              <IconButton
+                icon={<ConfirmIcon />}
+                text={Locale.FileBrowser.Commit}
+                bordered
+                disabled={!user || loading}
+                onClick={commit}
+              />
+            </div>
+            <div className="window-action-button">
+              <IconButton
+                icon={<ReloadIcon />}
+                title={Locale.FileBrowser.Refresh}
+                bordered
+                disabled={loading}
+                onClick={refresh}
+              />
+            </div>
+            <div className="window-action-button">
+              <IconButton
+                icon={<CloseIcon />}
+                bordered
+                onClick={() => navigate(-1)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div
+          className={`${styles["file-browser-body"]} ${
+            dragOver ? styles["drag-over"] : ""
+          }`}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragOver(true);
+          }}
+          onDragLeave={() => setDragOver(false)}
+          onDrop={onDrop}
+        >
+          {!user || !isConnected ? (
+            <div className={styles["file-hint"]}>
+              {Locale.FileBrowser.LoginRequired}
+            </div>
+          ) : (
+            <>
+              <div className={styles["file-toolbar"]}>
+                <Select
+                  value={projectId}
+                  onChange={(e) => switchProject(e.target.value)}
+                >
+                  {projects.map((project) => (
+                    <option key={project.id} value={project.id}>
+                      {project.isDefault
+                        ? Locale.FileBrowser.Project.Default
+                        : project.name}
+                    </option>
+                  ))}
+                </Select>
+                <IconButton
+                  icon={<AddIcon />}
+                  text={Locale.FileBrowser.Project.New}
+                  bordered
+                  onClick={createProject}
+                />
+                <IconButton
+                  icon={<DeleteIcon />}
+                  text={Locale.FileBrowser.Project.Delete}
+                  bordered
+                  disabled={!session.projectId}
+                  onClick={deleteProject}
+                />
+              </div>
+
+              <div className={styles["file-toolbar"]}>
+                <IconButton
+                  icon={<UploadIcon />}
+                  text={Locale.FileBrowser.UploadFiles}
+                  bordered
+                  onClick={() => fileInputRef.current?.click()}
+                />
+                <IconButton
+                  icon={<UploadIcon />}
+                  text={Locale.FileBrowser.UploadFolder}
+                  bordered
+                  onClick={() => folderInputRef.current?.click()}
+                />
+                <span className={styles["file-hint"]}>
+                  {activeUploads > 0
+                    ? Locale.FileBrowser.Uploading(activeUploads)
+                    : Locale.FileBrowser.DropHint}
+                </span>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  style={{ display: "none" }}
+                  onChange={onInputChange}
+                />
+                <input
+                  ref={folderInputRef}
+                  type="file"
+                  multiple
+                  style={{ display: "none" }}
+                  onChange={onInputChange}
+                  {...{ webkitdirectory: "", directory: "" }}
+                />
+              </div>
+
+              <UploadQueue />
+
+              {dir && (
+                <div className={styles["file-breadcrumb"]}>
+                  <IconButton
+                    icon={<LeftIcon />}
+                    onClick={() =>
+                      setDir(dir.split("/").slice(0, -1).join("/"))
+                    }
+                  />
+                  <code>/{dir}</code>
+                </div>
+              )}
+
+              <table className={styles["file-table"]}>
+                <thead>
+                  <tr>
+                    <th>{Locale.FileBrowser.Column.Name}</th>
+                    <th>{Locale.FileBrowser.Column.Size}</th>
+                    <th>{Locale.FileBrowser.Column.Modified}</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {files.map((file) => {
+                    const path = joinPath(dir, file.name);
+                    return (
+                      <tr key={file.name}>
+                        <td>
+                          {file.type === "directory" ? (
+                            <span
+                              className={styles["file-directory"]}
+                              onClick={() => setDir(path)}
+                            >
+                              {file.name}/
+                            </span>
+                          ) : (
+                            <span
+                              className={styles["file-name"]}
+                              onClick={() => openPreview(path)}
+                            >
+                              {file.name}
+                            </span>
+                          )}
+                        </td>
+                        <td>
+                          {file.size !== undefined && formatBytes(file.size)}
+                        </td>
+                        <td>{formatDate(file.last_modified)}</td>
+                        <td>
+                          {file.type === "file" && (
+                            <div className={styles["file-actions"]}>
+                              <IconButton
+                                icon={<EyeIcon />}
+                                title={Locale.FileBrowser.Preview}
+                                onClick={() => openPreview(path)}
+                              />
+                              <IconButton
+                                icon={<DownloadIcon />}
+                                title={Locale.FileBrowser.Download}
+                                onClick={() => download(path)}
+                              />
+                              <IconButton
+                                icon={<RenameIcon />}
+                                title={Locale.FileBrowser.Rename}
+                                onClick={() => rename(path)}
+                              />
+                              <IconButton
+                                icon={<DeleteIcon />}
+                                title={Locale.FileBrowser.Delete}
+                                onClick={() => remove(path)}
+                              />
+                              <IconButton
+                                icon={<ChatIcon />}
+                                title={Locale.FileBrowser.InsertToChat}
+                                onClick={() => insertToChat(path)}
+                              />
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {loading && <LoadingIcon />}
+              {!loading && files.length === 0 && (
+                <div className={styles["file-hint"]}>
+                  {Locale.FileBrowser.Empty}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {preview && (
+        <div className="screen-model-container">
+          <Modal
+            title={preview.path}
+            onClose={() => setPreview(undefined)}
+            actions={[
+              <IconButton
+                key="insert"
+                icon={<ChatIcon />}
+                text={Locale.FileBrowser.InsertToChat}
+                bordered
+                onClick={() => insertToChat(preview.path)}
+              />,
+              <IconButton
+                key="download"
+                icon={<DownloadIcon />}
+                text={Locale.FileBrowser.Download}
+                bordered
+                onClick={() => download(preview.path)}
+              />,
+            ]}
+          >
+            <FilePreview path={preview.path} url={preview.url} />
+          </Modal>
+        </div>
+      )}
+    </ErrorBoundary>
+  );
+}
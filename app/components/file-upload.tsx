@@ -50,13 +50,6 @@ export function FileUpload({ onFileUploaded }: FileUploadProps) {
 
     const file = files[0];
 
-    // File size limit (10MB)
-    const maxSize = 10 * 1024 * 1024;
-    if (file.size > maxSize) {
-      showToast("File too large. Maximum size is 10MB.");
-      return;
-    }
-
     try {
       setIsUploading(true);
       setUploadProgress(0);
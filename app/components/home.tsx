@@ -30,8 +30,9 @@ import { ModelClient, useChatStore } from "../store";
 // import { MLCLLMContext, WebLLMContext, HyphaAgentContext } from "../context";
 import { HyphaAgentContext } from "../context";
 // import { MlcLLMApi } from "../client/mlcllm";
-import { HyphaAgentApi } from "../client/hypha-agent";
+import { HyphaAgentApi, getAgentSessionId } from "../client/hypha-agent";
 import { useHyphaStore } from "../store/hypha";
+import { getActiveProfile } from "../store/connection";
 
 export function Loading(props: { noLogo?: boolean }) {
   return (
@@ -66,6 +67,13 @@ const Chat = dynamic(async () => (await import("./chat")).Chat, {
   loading: () => <Loading noLogo />,
 });
 
+const KernelInspector = dynamic(
+  async () => (await import("./kernel-inspector")).KernelInspector,
+  {
+    loading: () => null,
+  },
+);
+
 const TemplatePage = dynamic(
   async () => (await import("./template")).TemplatePage,
   {
@@ -73,6 +81,34 @@ const TemplatePage = dynamic(
   },
 );
 
+const FileBrowser = dynamic(
+  async () => (await import("./file-browser")).FileBrowser,
+  {
+    loading: () => <Loading noLogo />,
+  },
+);
+
+const AgentEditor = dynamic(
+  async () => (await import("./agent-editor")).AgentEditor,
+  {
+    loading: () => <Loading noLogo />,
+  },
+);
+
+const AgentManager = dynamic(
+  async () => (await import("./agent-manager")).AgentManager,
+  {
+    loading: () => <Loading noLogo />,
+  },
+);
+
+const ComparePage = dynamic(
+  async () => (await import("./compare")).ComparePage,
+  {
+    loading: () => <Loading noLogo />,
+  },
+);
+
 export function useSwitchTheme() {
   const config = useAppConfig();
 
@@ -138,6 +174,11 @@ function Screen() {
   const isHome = location.pathname === Path.Home;
   const isMobileScreen = useMobileScreen();
   const shouldTightBorder = config.tightBorder && !isMobileScreen;
+  const showKernelInspector =
+    config.showKernelInspector &&
+    config.modelClientType === ModelClient.HYPHA_AGENT &&
+    (isHome || location.pathname === Path.Chat) &&
+    !isMobileScreen;
 
   useEffect(() => {
     loadAsyncFonts();
@@ -155,13 +196,23 @@ function Screen() {
       <>
         <SideBar className={isHome ? styles["sidebar-show"] : ""} />
 
-        <div className={styles["window-content"]} id={SlotID.AppBody}>
+        <div
+          className={`${styles["window-content"]} ${
+            showKernelInspector ? styles["window-content-with-panel"] : ""
+          }`}
+          id={SlotID.AppBody}
+        >
           <Routes>
             <Route path={Path.Home} element={<Chat />} />
             <Route path={Path.Templates} element={<TemplatePage />} />
             <Route path={Path.Chat} element={<Chat />} />
             <Route path={Path.Settings} element={<Settings />} />
+            <Route path={Path.Files} element={<FileBrowser />} />
+            <Route path={Path.AgentEditor} element={<AgentEditor />} />
+            <Route path={Path.Compare} element={<ComparePage />} />
+            <Route path={Path.Agents} element={<AgentManager />} />
           </Routes>
+          {showKernelInspector && <KernelInspector />}
         </div>
       </>
     </div>
@@ -375,19 +426,20 @@ const useHyphaAgent = () => {
 
         // url looks like this: http://localhost:3001/#/chat?service_id=ws-user-github|478667/x742s9xc381750092581871:deno-app-engine
 
-        // get from url params or use the default
+        // get from url params or use the active connection profile
+        const profile = getActiveProfile();
         const serviceId =
           new URLSearchParams(window.location.href.split("?")[1]).get(
             "service_id",
-          ) || "hypha-agents/deno-app-engine";
+          ) || profile.engineServiceId;
         const agent = new HyphaAgentApi(
-          "https://hypha.aicell.io",
+          profile.serverUrl,
           serviceId,
           () => store.getServer(), // Wrap in arrow function to preserve context
         );
 
         console.log(
-          `Connecting to deno-app-engine served at https://hypha.aicell.io, serviceId: ${serviceId}`,
+          `Connecting to deno-app-engine served at ${profile.serverUrl}, serviceId: ${serviceId}`,
         );
 
         // Only set the agent if we're still initializing (not cancelled)
@@ -498,6 +550,64 @@ const useStopStreamingMessages = () => {
 //   }, [config.modelClientType, mlcllm]);
 // };
 
+// Deleted sessions can be restored from the toast for a few seconds
+const SESSION_AGENT_CLEANUP_DELAY_MS = 10000;
+
+const useAgentCleanup = (hyphaAgent?: HyphaAgentApi) => {
+  const { onBeforeDisconnect } = useHyphaStore();
+
+  // Destroy the agents of deleted sessions once they can't be restored
+  useEffect(() => {
+    if (!hyphaAgent) return;
+
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    const unsubscribe = useChatStore.subscribe((state, prevState) => {
+      const sessionIds = new Set(state.sessions.map((s) => s.id));
+      const removed = prevState.sessions
+        .map((s) => s.id)
+        .filter((id) => !sessionIds.has(id));
+      if (removed.length === 0) return;
+
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        const current = new Set(
+          useChatStore.getState().sessions.map((s) => s.id),
+        );
+        const deleted = removed.filter((id) => !current.has(id));
+        if (deleted.length === 0) return;
+
+        log.info("[useAgentCleanup] Destroying agents of sessions:", deleted);
+        hyphaAgent.destroySessionAgents(deleted).catch((error) => {
+          log.warn("[useAgentCleanup] Failed to destroy agents:", error);
+        });
+      }, SESSION_AGENT_CLEANUP_DELAY_MS);
+      timers.add(timer);
+    });
+
+    return () => {
+      unsubscribe();
+      timers.forEach((timer) => clearTimeout(timer));
+    };
+  }, [hyphaAgent]);
+
+  // Destroy the agents of this browser's sessions when logging out, agents
+  // of the user's other devices and apps keep running
+  useEffect(() => {
+    if (!hyphaAgent) return;
+    return onBeforeDisconnect(async () => {
+      const sessionIds = new Set(
+        useChatStore.getState().sessions.map((s) => s.id),
+      );
+      const agents = (await hyphaAgent.listAgents()).filter((agent) => {
+        const sessionId = getAgentSessionId(agent.id);
+        return sessionId !== null && sessionIds.has(sessionId);
+      });
+      log.info(`[useAgentCleanup] Destroying ${agents.length} agents`);
+      await hyphaAgent.destroyAgents(agents.map((agent) => agent.id));
+    });
+  }, [hyphaAgent, onBeforeDisconnect]);
+};
+
 const useInitializeHypha = () => {
   const { initialize } = useHyphaStore();
   const isInitializedRef = useRef(false);
@@ -529,6 +639,7 @@ export function Home() {
   // useModels(mlcllm);
   // useLogLevel(webllm);
   useInitializeHypha();
+  useAgentCleanup(hyphaAgent);
 
   if (!hasHydrated) {
     return <Loading />;
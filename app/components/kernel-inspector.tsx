@@ -0,0 +1,244 @@
+import React, { useCallback, useContext, useEffect, useState } from "react";
+
+import styles from "./kernel-inspector.module.scss";
+import Locale from "../locales";
+import { IconButton } from "./button";
+import { showConfirm, showToast } from "./ui-lib";
+import { HyphaAgentContext } from "../context";
+import { useAppConfig, useChatStore } from "../store";
+import { KernelInspection, KernelVariable } from "../client/hypha-agent";
+
+import CloseIcon from "../icons/close.svg";
+import ReloadIcon from "../icons/reload.svg";
+import PauseIcon from "../icons/pause.svg";
+import LightningIcon from "../icons/lightning.svg";
+import ConfigIcon from "../icons/config.svg";
+import LoadingIcon from "../icons/three-dots.svg";
+
+function VariableItem(props: { variable: KernelVariable }) {
+  const { variable } = props;
+  return (
+    <div className={styles["variable"]}>
+      <div className={styles["variable-header"]}>
+        <span className={styles["variable-name"]}>{variable.name}</span>
+        <span className={styles["variable-type"]}>
+          {variable.type}
+          {variable.shape && ` (${variable.shape.join(" × ")})`}
+        </span>
+      </div>
+      {variable.table ? (
+        <div className={styles["variable-table"]}>
+          <table>
+            <thead>
+              <tr>
+                {variable.table.columns.map((column) => (
+                  <th key={column}>{column}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {variable.table.data.map((row, i) => (
+                <tr key={i}>
+                  {row.map((cell, j) => (
+                    <td key={j}>{String(cell)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        variable.preview && (
+          <pre className={styles["variable-preview"]}>{variable.preview}</pre>
+        )
+      )}
+    </div>
+  );
+}
+
+export function KernelInspector() {
+  const hyphaAgent = useContext(HyphaAgentContext);
+  const config = useAppConfig();
+  const chatStore = useChatStore();
+  const session = chatStore.currentSession();
+  // The inspection and setup scripts are written in Python
+  const isPython = (session.agentRuntime?.kernelType ?? "PYTHON") === "PYTHON";
+
+  const [inspection, setInspection] = useState<KernelInspection | null>(null);
+  const [status, setStatus] = useState("unknown");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<"variables" | "packages">("variables");
+
+  // The kernel is only started with the agent, on the first message
+  const hasKernel = !!hyphaAgent?.getAgentId();
+
+  const refresh = useCallback(async () => {
+    if (!hyphaAgent?.getAgentId()) {
+      setInspection(null);
+      setStatus("idle");
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      setStatus(await hyphaAgent.getKernelStatus());
+      setInspection(isPython ? await hyphaAgent.inspectKernel() : null);
+    } catch (e: any) {
+      console.error("[KernelInspector] Failed to inspect kernel", e);
+      setError(e?.message ?? String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [hyphaAgent, isPython]);
+
+  // Inspect again whenever the agent finishes a turn
+  useEffect(() => {
+    if (!session.isGenerating) {
+      refresh();
+    }
+  }, [session.id, session.isGenerating, refresh]);
+
+  const runAction = async (
+    action: () => Promise<unknown>,
+    doneMessage: string,
+  ) => {
+    setLoading(true);
+    try {
+      await action();
+      showToast(doneMessage);
+    } catch (e: any) {
+      showToast(e?.message ?? String(e));
+    } finally {
+      setLoading(false);
+    }
+    refresh();
+  };
+
+  return (
+    <div className={styles["kernel-inspector"]}>
+      <div className={styles["kernel-inspector-header"]}>
+        <div className={styles["kernel-inspector-title"]}>
+          {Locale.KernelInspector.Title}
+          <span className={styles["kernel-status"]}>{status}</span>
+        </div>
+        <div className={styles["kernel-inspector-actions"]}>
+          <IconButton
+            icon={<ReloadIcon />}
+            title={Locale.KernelInspector.Refresh}
+            disabled={loading}
+            onClick={refresh}
+          />
+          <IconButton
+            icon={<CloseIcon />}
+            title={Locale.UI.Close}
+            onClick={() =>
+              config.update((config) => (config.showKernelInspector = false))
+            }
+          />
+        </div>
+      </div>
+
+      <div className={styles["kernel-controls"]}>
+        <IconButton
+          icon={<PauseIcon />}
+          text={Locale.KernelInspector.Interrupt}
+          bordered
+          disabled={loading || !hasKernel}
+          onClick={() =>
+            runAction(
+              () => hyphaAgent!.interruptKernel(),
+              Locale.KernelInspector.Interrupted,
+            )
+          }
+        />
+        <IconButton
+          icon={<LightningIcon />}
+          text={Locale.KernelInspector.Restart}
+          bordered
+          disabled={loading || !hasKernel}
+          onClick={async () => {
+            if (await showConfirm(Locale.KernelInspector.ConfirmRestart)) {
+              runAction(
+                () => hyphaAgent!.restartKernel(),
+                Locale.KernelInspector.Restarted,
+              );
+            }
+          }}
+        />
+        {isPython && (
+          <IconButton
+            icon={<ConfigIcon />}
+            text={Locale.KernelInspector.RerunSetup}
+            bordered
+            disabled={loading || !hasKernel}
+            onClick={() =>
+              runAction(async () => {
+                const result = await hyphaAgent!.rerunEnvironmentSetup();
+                if (!result.success) throw new Error(result.output);
+              }, Locale.KernelInspector.SetupDone)
+            }
+          />
+        )}
+      </div>
+
+      {!hasKernel && (
+        <div className={styles["kernel-empty"]}>
+          {Locale.KernelInspector.NoKernel}
+        </div>
+      )}
+
+      {hasKernel && !isPython && (
+        <div className={styles["kernel-empty"]}>
+          {Locale.KernelInspector.PythonOnly}
+        </div>
+      )}
+
+      {hasKernel && isPython && (
+        <div className={styles["kernel-tabs"]}>
+          {(["variables", "packages"] as const).map((t) => (
+            <div
+              key={t}
+              className={`${styles["kernel-tab"]} ${
+                tab === t ? styles["kernel-tab-active"] : ""
+              }`}
+              onClick={() => setTab(t)}
+            >
+              {t === "variables"
+                ? Locale.KernelInspector.Variables(
+                    inspection?.variables.length ?? 0,
+                  )
+                : Locale.KernelInspector.Packages(
+                    inspection?.packages.length ?? 0,
+                  )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className={styles["kernel-inspector-body"]}>
+        {loading && !inspection && <LoadingIcon />}
+        {error && <div className={styles["kernel-error"]}>{error}</div>}
+        {inspection &&
+          tab === "variables" &&
+          (inspection.variables.length === 0 ? (
+            <div className={styles["kernel-empty"]}>
+              {Locale.KernelInspector.NoVariables}
+            </div>
+          ) : (
+            inspection.variables.map((variable) => (
+              <VariableItem key={variable.name} variable={variable} />
+            ))
+          ))}
+        {inspection &&
+          tab === "packages" &&
+          inspection.packages.map((pkg) => (
+            <div key={pkg.name} className={styles["package"]}>
+              <span>{pkg.name}</span>
+              <span className={styles["package-version"]}>{pkg.version}</span>
+            </div>
+          ))}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { useHyphaStore } from "../store/hypha";
+import { getActiveProfile } from "../store/connection";
 import { IconButton } from "./button";
 import UserIcon from "../icons/user.svg";
 import ConnectionIcon from "../icons/connection.svg";
@@ -15,8 +16,6 @@ interface LoginConfig {
   login_callback: (context: { login_url: string }) => void;
 }
 
-const serverUrl = "https://hypha.aicell.io";
-
 // Move token logic outside of component
 const getSavedToken = () => {
   const token = localStorage.getItem("token");
@@ -78,7 +77,7 @@ export default function LoginButton({ className = "" }: LoginButtonProps) {
 
   const login = async () => {
     const config: LoginConfig = {
-      server_url: serverUrl,
+      server_url: getActiveProfile().serverUrl,
       login_callback: loginCallback,
     };
 
@@ -128,7 +127,7 @@ export default function LoginButton({ className = "" }: LoginButtonProps) {
       await new Promise((resolve) => setTimeout(resolve, 10));
 
       await connect({
-        server_url: serverUrl,
+        server_url: getActiveProfile().serverUrl,
         token: token,
         method_timeout: 180000,
       });
@@ -1,4 +1,4 @@
-import ReactMarkdown from "react-markdown";
+import ReactMarkdown, { defaultUrlTransform } from "react-markdown";
 import "katex/dist/katex.min.css";
 import RemarkMath from "remark-math";
 import RemarkBreaks from "remark-breaks";
@@ -15,6 +15,15 @@ import React from "react";
 import { useDebouncedCallback } from "use-debounce";
 import { showImageModal } from "./ui-lib";
 import { PluggableList } from "react-markdown/lib";
+import { MimeBundle } from "../client/api";
+import {
+  PLOTLY_MIME_TYPE,
+  getDisplayMimeType,
+  getMimeImageSource,
+  getMimeText,
+  renderPlotlyDocument,
+  sanitizeHtml,
+} from "../utils/mime";
 
 export function Mermaid(props: { code: string }) {
   const ref = useRef<HTMLDivElement>(null);
@@ -136,7 +145,8 @@ function escapeBrackets(text: string) {
   );
 }
 
-function _MarkDownContent(props: { content: string }) {
+// Raw HTML is dropped when `allowHtml` is false, e.g. for kernel outputs
+function _MarkDownContent(props: { content: string; allowHtml?: boolean }) {
   // Script tags are now converted to markdown code blocks in the HyphaAgent before reaching here
   const contentWithClosedTags = props.content;
 
@@ -149,7 +159,8 @@ function _MarkDownContent(props: { content: string }) {
       remarkPlugins={[RemarkMath, RemarkGfm, RemarkBreaks] as PluggableList}
       rehypePlugins={
         [
-          rehypeRaw, // Allow HTML tags like <details> and <summary>
+          // Allow HTML tags like <details> and <summary>
+          ...(props.allowHtml === false ? [] : [rehypeRaw]),
           RehypeKatex,
           [
             RehypeHighlight,
@@ -160,6 +171,12 @@ function _MarkDownContent(props: { content: string }) {
           ],
         ] as PluggableList
       }
+      urlTransform={(url, key, node) =>
+        // Keep inline images rendered by agents through the UI bridge
+        node.tagName === "img" && url.startsWith("data:image/")
+          ? url
+          : defaultUrlTransform(url)
+      }
       components={
         {
           pre: PreCode as any,
@@ -182,6 +199,76 @@ function _MarkDownContent(props: { content: string }) {
 
 export const MarkdownContent = React.memo(_MarkDownContent);
 
+/**
+ * Rich display data of a kernel output. HTML is sanitised and markdown
+ * rendered without raw HTML, Plotly figures stay interactive in a sandboxed
+ * frame and images open enlarged on click
+ */
+export function MimeOutput(props: { bundle: MimeBundle; fontSize?: number }) {
+  const { bundle } = props;
+  const mimeType = getDisplayMimeType(bundle);
+
+  const html = useMemo(
+    () =>
+      mimeType === "text/html"
+        ? sanitizeHtml(getMimeText(bundle[mimeType]))
+        : "",
+    [bundle, mimeType],
+  );
+
+  const renderContent = () => {
+    switch (mimeType) {
+      case undefined:
+        return null;
+      case PLOTLY_MIME_TYPE:
+        return (
+          <iframe
+            className="mime-plotly"
+            sandbox="allow-scripts"
+            srcDoc={renderPlotlyDocument(bundle[mimeType])}
+          />
+        );
+      case "text/html":
+        return (
+          <div
+            className="mime-html"
+            dangerouslySetInnerHTML={{ __html: html }}
+          />
+        );
+      case "text/markdown":
+        return (
+          <MarkdownContent
+            content={getMimeText(bundle[mimeType])}
+            allowHtml={false}
+          />
+        );
+      default: {
+        const source = getMimeImageSource(mimeType, bundle[mimeType]);
+        return (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            className="no-dark mime-image"
+            src={source}
+            alt={getMimeText(bundle["text/plain"]) || mimeType}
+            onClick={() => showImageModal(source)}
+          />
+        );
+      }
+    }
+  };
+
+  return (
+    <div
+      className="markdown-body mime-output"
+      style={{
+        fontSize: `${props.fontSize ?? 14}px`,
+      }}
+    >
+      {renderContent()}
+    </div>
+  );
+}
+
 export function Markdown(
   props: {
     content: string;
@@ -4,6 +4,8 @@ import { Modal } from "./ui-lib";
 import { IconButton } from "./button";
 import ResourceCard from "./resource-card";
 import { useHyphaStore, Resource } from "../store/hypha";
+import { useNavigate } from "react-router-dom";
+import { Path } from "../constant";
 
 import style from "./model-select.module.scss";
 import Locale from "../locales";
@@ -75,14 +77,32 @@ const AgentSelect: React.FC<AgentSelectProps> = ({
   const [isInitialLoad, setIsInitialLoad] = useState(true);
   const searchInputRef = useRef<HTMLInputElement>(null);
 
-  const { resources, fetchResources, totalItems, itemsPerPage } =
-    useHyphaStore();
+  const navigate = useNavigate();
+  const {
+    resources,
+    draftAgents,
+    user,
+    fetchResources,
+    totalItems,
+    itemsPerPage,
+  } = useHyphaStore();
 
-  // Filter agents to only show type 'agent'
-  const agentResources = resources.filter((resource) =>
+  // Filter agents to only show type 'agent', with unpublished drafts first
+  const agentResources = [...draftAgents, ...resources].filter((resource) =>
     resource.manifest.type?.includes("agent"),
   );
 
+  const selectedResource = agentResources.find((r) => r.id === selectedAgentId);
+  const canEditSelected =
+    !!selectedResource &&
+    (selectedResource.id.startsWith("draft-") ||
+      (!!user && selectedResource.created_by === user.id));
+
+  const openEditor = (agentId?: string) => {
+    onClose();
+    navigate(Path.AgentEditor, { state: { agentId } });
+  };
+
   // Debounced search
   const debouncedSearch = useCallback((query: string) => {
     const timer = setTimeout(() => {
@@ -234,6 +254,18 @@ const AgentSelect: React.FC<AgentSelectProps> = ({
             )}
           </div>
           <div className={style["footer-actions"]}>
+            <IconButton
+              text={Locale.AgentEditor.Create}
+              onClick={() => openEditor()}
+              className={style["cancel-button"]}
+            />
+            {canEditSelected && (
+              <IconButton
+                text={Locale.AgentEditor.EditAgent}
+                onClick={() => openEditor(selectedAgentId!)}
+                className={style["cancel-button"]}
+              />
+            )}
             <IconButton
               text="Cancel"
               onClick={onClose}
@@ -1,5 +1,6 @@
 import React from "react";
 import { Resource } from "../store/hypha";
+import { resolveArtifactFileUrl } from "../store/connection";
 
 interface ResourceCardProps {
   resource: Resource;
@@ -7,21 +8,6 @@ interface ResourceCardProps {
   isSelected?: boolean;
 }
 
-const resolveHyphaUrl = (url: string, resourceId: string): string => {
-  if (url.startsWith("http://") || url.startsWith("https://")) {
-    return url;
-  }
-
-  const baseUrl = "https://hypha.aicell.io/hypha-agents/artifacts";
-  const resourcePath = resourceId.replace("hypha-agents/", "");
-
-  if (url.startsWith("./")) {
-    return `${baseUrl}/${resourcePath}/${url.slice(2)}`;
-  }
-
-  return `${baseUrl}/${resourcePath}/${url}`;
-};
-
 export const ResourceCard: React.FC<ResourceCardProps> = ({
   resource,
   onSelect,
@@ -31,7 +17,7 @@ export const ResourceCard: React.FC<ResourceCardProps> = ({
 
   const getCurrentCoverUrl = () => {
     if (covers.length === 0) return "";
-    return resolveHyphaUrl(covers[0], resource.id);
+    return resolveArtifactFileUrl(covers[0], resource.id);
   };
 
   const handleClick = () => {
@@ -8,8 +8,18 @@ import CopyIcon from "../icons/copy.svg";
 import ClearIcon from "../icons/clear.svg";
 import EditIcon from "../icons/edit.svg";
 import EyeIcon from "../icons/eye.svg";
+import RobotIcon from "../icons/robot.svg";
 
-import { Input, List, ListItem, Modal, Select, showConfirm } from "./ui-lib";
+import {
+  Input,
+  List,
+  ListItem,
+  Modal,
+  PasswordInput,
+  Select,
+  showConfirm,
+  showToast,
+} from "./ui-lib";
 import { ModelConfigList } from "./model-config";
 
 import { IconButton } from "./button";
@@ -19,6 +29,9 @@ import {
   Theme,
   useAppConfig,
   CacheType,
+  AgentSessionMode,
+  CodeApprovalMode,
+  KernelTokenPermission,
 } from "../store";
 
 import Locale, {
@@ -35,7 +48,16 @@ import { InputRange } from "./input-range";
 import { useNavigate } from "react-router-dom";
 import { nanoid } from "nanoid";
 import { LogLevel } from "@mlc-ai/web-llm";
-import { WebLLMContext } from "../context";
+import { HyphaAgentContext, WebLLMContext } from "../context";
+import { useHyphaStore } from "../store/hypha";
+import { useKernelTokenStore } from "../store/kernel-token";
+import { useVaultStore } from "../store/vault";
+import { VaultSecret, WrongPassphraseError } from "../utils/vault";
+import {
+  ConnectionProfile,
+  DEFAULT_CONNECTION_PROFILE,
+  useConnectionStore,
+} from "../store/connection";
 
 function EditPromptModal(props: { id: string; onClose: () => void }) {
   const promptStore = usePromptStore();
@@ -191,6 +213,550 @@ function UserPromptModal(props: { onClose?: () => void }) {
   );
 }
 
+function EditConnectionProfileModal(props: {
+  id: string;
+  onClose: () => void;
+}) {
+  const connectionStore = useConnectionStore();
+  const profile = connectionStore.profiles.find((p) => p.id === props.id);
+  const isActive = connectionStore.activeProfileId === props.id;
+
+  const textField = (
+    field: Exclude<keyof ConnectionProfile, "id">,
+    title: string,
+    subTitle?: string,
+  ) => (
+    <ListItem title={title} subTitle={subTitle}>
+      <input
+        type="text"
+        value={profile?.[field] ?? ""}
+        onInput={(e) => {
+          const value = e.currentTarget.value;
+          connectionStore.updateProfile(
+            props.id,
+            (profile) => (profile[field] = value),
+          );
+        }}
+      ></input>
+    </ListItem>
+  );
+
+  return profile ? (
+    <div className="screen-model-container">
+      <Modal
+        title={Locale.Settings.Connection.Modal.Title}
+        onClose={props.onClose}
+        actions={[
+          <IconButton
+            key=""
+            onClick={props.onClose}
+            text={Locale.UI.Confirm}
+            bordered
+          />,
+        ]}
+      >
+        <List>
+          {textField("name", Locale.Settings.Connection.Modal.Name)}
+          {textField(
+            "serverUrl",
+            Locale.Settings.Connection.Modal.ServerUrl,
+            isActive ? Locale.Settings.Connection.Modal.ApplyHint : undefined,
+          )}
+          {textField(
+            "workspace",
+            Locale.Settings.Connection.Modal.Workspace,
+            Locale.Settings.Connection.Modal.WorkspaceHint,
+          )}
+          {textField(
+            "agentCollection",
+            Locale.Settings.Connection.Modal.AgentCollection,
+            Locale.Settings.Connection.Modal.AgentCollectionHint,
+          )}
+          {textField(
+            "engineServiceId",
+            Locale.Settings.Connection.Modal.EngineServiceId,
+            Locale.Settings.Connection.Modal.EngineServiceIdHint,
+          )}
+        </List>
+      </Modal>
+    </div>
+  ) : null;
+}
+
+function ConnectionItems() {
+  const navigate = useNavigate();
+  const connectionStore = useConnectionStore();
+  const hyphaStore = useHyphaStore();
+  const activeProfile = connectionStore.activeProfile();
+  const [editingProfileId, setEditingProfileId] = useState<string>();
+
+  // Tokens are issued per server, so switching profiles logs out
+  const switchProfile = async (id: string) => {
+    if (id === connectionStore.activeProfileId) return;
+    if (
+      hyphaStore.user &&
+      !(await showConfirm(Locale.Settings.Connection.SwitchConfirm))
+    ) {
+      return;
+    }
+    await hyphaStore.disconnect({ runHandlers: false });
+    connectionStore.selectProfile(id);
+  };
+
+  const deleteProfile = async () => {
+    if (
+      !(await showConfirm(
+        Locale.Settings.Connection.DeleteConfirm(activeProfile.name),
+      ))
+    ) {
+      return;
+    }
+    await hyphaStore.disconnect();
+    connectionStore.removeProfile(activeProfile.id);
+  };
+
+  return (
+    <List>
+      <ListItem
+        title={Locale.Settings.Connection.Profile.Title}
+        subTitle={Locale.Settings.Connection.Profile.SubTitle(
+          activeProfile.serverUrl,
+        )}
+      >
+        <Select
+          value={connectionStore.activeProfileId}
+          onChange={(e) => switchProfile(e.target.value)}
+        >
+          {connectionStore.profiles.map((profile) => (
+            <option value={profile.id} key={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </Select>
+      </ListItem>
+      <ListItem
+        title={Locale.Settings.Connection.Manage.Title}
+        subTitle={Locale.Settings.Connection.Manage.SubTitle}
+      >
+        <div style={{ display: "flex", gap: "8px" }}>
+          <IconButton
+            icon={<EditIcon />}
+            text={Locale.Settings.Connection.Manage.Edit}
+            onClick={() => setEditingProfileId(activeProfile.id)}
+          />
+          <IconButton
+            icon={<AddIcon />}
+            text={Locale.Settings.Connection.Manage.Add}
+            onClick={() =>
+              setEditingProfileId(
+                connectionStore.addProfile({
+                  name: Locale.Settings.Connection.Manage.NewName,
+                }).id,
+              )
+            }
+          />
+          {activeProfile.id !== DEFAULT_CONNECTION_PROFILE.id && (
+            <IconButton
+              icon={<ClearIcon />}
+              text={Locale.Settings.Connection.Manage.Delete}
+              onClick={deleteProfile}
+              type="danger"
+            />
+          )}
+        </div>
+      </ListItem>
+      <ListItem
+        title={Locale.Settings.Connection.Agents.Title}
+        subTitle={Locale.Settings.Connection.Agents.SubTitle}
+      >
+        <IconButton
+          icon={<RobotIcon />}
+          text={Locale.Settings.Connection.Agents.Manage}
+          onClick={() => navigate(Path.Agents)}
+        />
+      </ListItem>
+
+      {editingProfileId !== undefined && (
+        <EditConnectionProfileModal
+          id={editingProfileId}
+          onClose={() => setEditingProfileId(undefined)}
+        />
+      )}
+    </List>
+  );
+}
+
+const KERNEL_TOKEN_EXPIRY_OPTIONS = [
+  15 * 60,
+  60 * 60,
+  4 * 60 * 60,
+  24 * 60 * 60,
+];
+
+function KernelTokenItems() {
+  const config = useAppConfig();
+  const chatStore = useChatStore();
+  const kernelTokenStore = useKernelTokenStore();
+  const hyphaAgent = useContext(HyphaAgentContext);
+  const liveTokens = kernelTokenStore.liveTokens();
+
+  const sessionTopic = (sessionId: string | null) =>
+    chatStore.sessions.find((session) => session.id === sessionId)?.topic;
+
+  return (
+    <List>
+      <ListItem
+        title={Locale.Settings.KernelToken.Permission.Title}
+        subTitle={Locale.Settings.KernelToken.Permission.SubTitle}
+      >
+        <Select
+          value={config.kernelToken.permission}
+          onChange={(e) =>
+            config.update(
+              (config) =>
+                (config.kernelToken = {
+                  ...config.kernelToken,
+                  permission: e.target.value as KernelTokenPermission,
+                }),
+            )
+          }
+        >
+          {(["read", "read_write"] as KernelTokenPermission[]).map((v) => (
+            <option value={v} key={v}>
+              {Locale.Settings.KernelToken.Permission.Options[v]}
+            </option>
+          ))}
+        </Select>
+      </ListItem>
+      <ListItem
+        title={Locale.Settings.KernelToken.Workspace.Title}
+        subTitle={Locale.Settings.KernelToken.Workspace.SubTitle}
+      >
+        <input
+          type="text"
+          value={config.kernelToken.workspace ?? ""}
+          placeholder={Locale.Settings.KernelToken.Workspace.Placeholder}
+          onInput={(e) => {
+            const workspace = e.currentTarget.value;
+            config.update(
+              (config) =>
+                (config.kernelToken = { ...config.kernelToken, workspace }),
+            );
+          }}
+        ></input>
+      </ListItem>
+      <ListItem
+        title={Locale.Settings.KernelToken.Expiry.Title}
+        subTitle={Locale.Settings.KernelToken.Expiry.SubTitle}
+      >
+        <Select
+          value={config.kernelToken.expiresIn}
+          onChange={(e) =>
+            config.update(
+              (config) =>
+                (config.kernelToken = {
+                  ...config.kernelToken,
+                  expiresIn: parseInt(e.target.value),
+                }),
+            )
+          }
+        >
+          {KERNEL_TOKEN_EXPIRY_OPTIONS.map((seconds) => (
+            <option value={seconds} key={seconds}>
+              {Locale.Settings.KernelToken.Expiry.Option(seconds / 60)}
+            </option>
+          ))}
+        </Select>
+      </ListItem>
+      <ListItem
+        title={Locale.Settings.KernelToken.Live.Title}
+        subTitle={Locale.Settings.KernelToken.Live.SubTitle(liveTokens.length)}
+      />
+      {liveTokens.map((token) => (
+        <ListItem
+          key={token.agentId}
+          title={
+            sessionTopic(token.sessionId) ??
+            Locale.Settings.KernelToken.Live.NoSession
+          }
+          subTitle={Locale.Settings.KernelToken.Live.Token(
+            Locale.Settings.KernelToken.Permission.Options[token.permission],
+            new Date(token.expiresAt).toLocaleString(),
+            token.projectId,
+          )}
+        >
+          <IconButton
+            icon={<ClearIcon />}
+            text={Locale.Settings.KernelToken.Live.Revoke}
+            onClick={async () => {
+              if (hyphaAgent) {
+                await hyphaAgent.revokeKernelToken(token.agentId);
+              } else {
+                kernelTokenStore.removeToken(token.agentId);
+              }
+            }}
+          />
+        </ListItem>
+      ))}
+    </List>
+  );
+}
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function VaultPassphraseModal(props: { create: boolean; onClose: () => void }) {
+  const vault = useVaultStore();
+  const [passphrase, setPassphrase] = useState("");
+  const [repeated, setRepeated] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const submit = async () => {
+    if (props.create && passphrase !== repeated) {
+      showToast(Locale.Settings.Vault.Passphrase.Mismatch);
+      return;
+    }
+    setBusy(true);
+    try {
+      if (props.create) {
+        await vault.create(passphrase);
+      } else {
+        await vault.unlock(passphrase);
+      }
+      props.onClose();
+    } catch (error: any) {
+      showToast(
+        error instanceof WrongPassphraseError
+          ? Locale.Settings.Vault.Passphrase.Wrong
+          : error?.message ?? String(error),
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="screen-model-container">
+      <Modal
+        title={
+          props.create
+            ? Locale.Settings.Vault.Passphrase.CreateTitle
+            : Locale.Settings.Vault.Passphrase.UnlockTitle
+        }
+        onClose={props.onClose}
+        actions={[
+          <IconButton
+            key="cancel"
+            bordered
+            text={Locale.UI.Cancel}
+            onClick={props.onClose}
+          />,
+          <IconButton
+            key="ok"
+            type="primary"
+            bordered
+            text={Locale.UI.Confirm}
+            disabled={busy || !passphrase}
+            onClick={submit}
+          />,
+        ]}
+      >
+        <List>
+          <ListItem
+            title={Locale.Settings.Vault.Passphrase.Title}
+            subTitle={
+              props.create ? Locale.Settings.Vault.Passphrase.Hint : undefined
+            }
+          >
+            <PasswordInput
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.currentTarget.value)}
+            />
+          </ListItem>
+          {props.create && (
+            <ListItem title={Locale.Settings.Vault.Passphrase.Repeat}>
+              <PasswordInput
+                value={repeated}
+                onChange={(e) => setRepeated(e.currentTarget.value)}
+              />
+            </ListItem>
+          )}
+        </List>
+      </Modal>
+    </div>
+  );
+}
+
+function EditSecretModal(props: { secret?: VaultSecret; onClose: () => void }) {
+  const vault = useVaultStore();
+  const [name, setName] = useState(props.secret?.name ?? "");
+  const [value, setValue] = useState(props.secret?.value ?? "");
+
+  const save = async () => {
+    if (!ENV_NAME_PATTERN.test(name)) {
+      showToast(Locale.Settings.Vault.Secret.InvalidName);
+      return;
+    }
+    try {
+      await vault.setSecret({ name, value }, props.secret?.name);
+      props.onClose();
+    } catch (error: any) {
+      showToast(error?.message ?? String(error));
+    }
+  };
+
+  return (
+    <div className="screen-model-container">
+      <Modal
+        title={Locale.Settings.Vault.Secret.Title}
+        onClose={props.onClose}
+        actions={[
+          <IconButton
+            key="cancel"
+            bordered
+            text={Locale.UI.Cancel}
+            onClick={props.onClose}
+          />,
+          <IconButton
+            key="ok"
+            type="primary"
+            bordered
+            text={Locale.UI.Confirm}
+            disabled={!name || !value}
+            onClick={save}
+          />,
+        ]}
+      >
+        <List>
+          <ListItem
+            title={Locale.Settings.Vault.Secret.Name}
+            subTitle={Locale.Settings.Vault.Secret.NameHint}
+          >
+            <input
+              type="text"
+              value={name}
+              placeholder="OPENAI_API_KEY"
+              onChange={(e) => setName(e.currentTarget.value.trim())}
+            ></input>
+          </ListItem>
+          <ListItem title={Locale.Settings.Vault.Secret.Value}>
+            <PasswordInput
+              value={value}
+              onChange={(e) => setValue(e.currentTarget.value)}
+            />
+          </ListItem>
+        </List>
+      </Modal>
+    </div>
+  );
+}
+
+function VaultItems() {
+  const vault = useVaultStore();
+  const [passphraseMode, setPassphraseMode] = useState<"create" | "unlock">();
+  const [editingSecret, setEditingSecret] = useState<VaultSecret | null>();
+
+  useEffect(() => {
+    vault.load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const reset = async () => {
+    if (await showConfirm(Locale.Settings.Vault.ResetConfirm)) {
+      await vault.reset();
+    }
+  };
+
+  const removeSecret = async (name: string) => {
+    if (await showConfirm(Locale.Settings.Vault.Secret.DeleteConfirm(name))) {
+      await vault.removeSecret(name);
+    }
+  };
+
+  return (
+    <List>
+      <ListItem
+        title={Locale.Settings.Vault.Title}
+        subTitle={
+          !vault.exists
+            ? Locale.Settings.Vault.SubTitle
+            : vault.unlocked
+              ? Locale.Settings.Vault.Unlocked(vault.secrets.length)
+              : Locale.Settings.Vault.Locked
+        }
+      >
+        <div style={{ display: "flex", gap: "8px" }}>
+          {!vault.exists && (
+            <IconButton
+              icon={<AddIcon />}
+              text={Locale.Settings.Vault.Create}
+              onClick={() => setPassphraseMode("create")}
+            />
+          )}
+          {vault.exists && !vault.unlocked && (
+            <>
+              <IconButton
+                icon={<EyeIcon />}
+                text={Locale.Settings.Vault.Unlock}
+                onClick={() => setPassphraseMode("unlock")}
+              />
+              <IconButton
+                icon={<ClearIcon />}
+                text={Locale.Settings.Vault.Reset}
+                onClick={reset}
+                type="danger"
+              />
+            </>
+          )}
+          {vault.unlocked && (
+            <>
+              <IconButton
+                icon={<AddIcon />}
+                text={Locale.Settings.Vault.Secret.Add}
+                onClick={() => setEditingSecret(null)}
+              />
+              <IconButton
+                icon={<CloseIcon />}
+                text={Locale.Settings.Vault.Lock}
+                onClick={() => vault.lock()}
+              />
+            </>
+          )}
+        </div>
+      </ListItem>
+      {vault.secrets.map((secret) => (
+        <ListItem key={secret.name} title={secret.name}>
+          <div style={{ display: "flex", gap: "8px" }}>
+            <IconButton
+              icon={<EditIcon />}
+              text={Locale.Settings.Vault.Secret.Edit}
+              onClick={() => setEditingSecret(secret)}
+            />
+            <IconButton
+              icon={<ClearIcon />}
+              text={Locale.Settings.Vault.Secret.Delete}
+              onClick={() => removeSecret(secret.name)}
+              type="danger"
+            />
+          </div>
+        </ListItem>
+      ))}
+
+      {passphraseMode && (
+        <VaultPassphraseModal
+          create={passphraseMode === "create"}
+          onClose={() => setPassphraseMode(undefined)}
+        />
+      )}
+      {editingSecret !== undefined && (
+        <EditSecretModal
+          secret={editingSecret ?? undefined}
+          onClose={() => setEditingSecret(undefined)}
+        />
+      )}
+    </List>
+  );
+}
+
 function DangerItems() {
   const chatStore = useChatStore();
   const appConfig = useAppConfig();
@@ -281,6 +847,10 @@ export function Settings() {
           <ModelConfigList />
         </List>
 
+        <ConnectionItems />
+        <KernelTokenItems />
+        <VaultItems />
+
         <List>
           <ListItem
             title={Locale.Settings.InjectSystemPrompts.Title}
@@ -348,6 +918,48 @@ export function Settings() {
               }
             ></input>
           </ListItem>
+          <ListItem
+            title={Locale.Settings.AgentSessionMode.Title}
+            subTitle={Locale.Settings.AgentSessionMode.SubTitle}
+          >
+            <Select
+              value={config.agentSessionMode}
+              onChange={(e) =>
+                updateConfig(
+                  (config) =>
+                    (config.agentSessionMode = e.target
+                      .value as any as AgentSessionMode),
+                )
+              }
+            >
+              {Object.values(AgentSessionMode).map((v) => (
+                <option value={v} key={v}>
+                  {Locale.Settings.AgentSessionMode.Options[v]}
+                </option>
+              ))}
+            </Select>
+          </ListItem>
+          <ListItem
+            title={Locale.Settings.CodeApproval.Title}
+            subTitle={Locale.Settings.CodeApproval.SubTitle}
+          >
+            <Select
+              value={config.codeApprovalMode}
+              onChange={(e) =>
+                updateConfig(
+                  (config) =>
+                    (config.codeApprovalMode = e.target
+                      .value as any as CodeApprovalMode),
+                )
+              }
+            >
+              {Object.values(CodeApprovalMode).map((v) => (
+                <option value={v} key={v}>
+                  {Locale.Settings.CodeApproval.Options[v]}
+                </option>
+              ))}
+            </Select>
+          </ListItem>
           <ListItem title={Locale.Memory.Title} subTitle={Locale.Memory.Send}>
             <input
               type="checkbox"
@@ -10,6 +10,7 @@ import MlcIcon from "../icons/mlc.svg";
 import AddIcon from "../icons/add.svg";
 import DeleteIcon from "../icons/delete.svg";
 import TemplateIcon from "../icons/chat.svg";
+import FolderIcon from "../icons/attachment.svg";
 import DragIcon from "../icons/drag.svg";
 import LightIcon from "../icons/light.svg";
 import DarkIcon from "../icons/dark.svg";
@@ -33,6 +34,7 @@ import { Link, useNavigate } from "react-router-dom";
 import { isIOS, useMobileScreen } from "../utils";
 import dynamic from "next/dynamic";
 import { showConfirm, showToast } from "./ui-lib";
+import { ConnectionStatus } from "./connection-status";
 
 const ChatList = dynamic(async () => (await import("./chat-list")).ChatList, {
   loading: () => null,
@@ -168,6 +170,7 @@ export function SideBar(props: { className?: string }) {
         <div className={styles["sidebar-title-container"]}>
           <div className={styles["sidebar-title"]}>{Locale.Title}</div>
           <div className={styles["sidebar-sub-title"]}>{Locale.Subtitle}</div>
+          <ConnectionStatus narrow={shouldNarrow} />
         </div>
         <div className={styles["sidebar-logo"] + " no-dark"}>
           <img
@@ -188,6 +191,15 @@ export function SideBar(props: { className?: string }) {
           }}
           shadow
         />
+        <IconButton
+          icon={<FolderIcon />}
+          text={shouldNarrow ? undefined : Locale.FileBrowser.Name}
+          className={styles["sidebar-bar-button"]}
+          onClick={() => {
+            navigate(Path.Files);
+          }}
+          shadow
+        />
         <IconButton
           icon={<SettingsIcon />}
           text={shouldNarrow ? undefined : Locale.Settings.Title}
@@ -0,0 +1,279 @@
+import React, { useEffect, useRef, useState } from "react";
+import dynamic from "next/dynamic";
+import { ChevronDown, ChevronUp } from "lucide-react";
+
+import styles from "./tool-call.module.scss";
+import Locale from "../locales";
+import { ToolCall, ToolCallRun } from "../client/api";
+import { IconButton } from "./button";
+import { showQuestion } from "./ui-lib";
+import { parseAnsi } from "../utils/ansi";
+import { getToolCallLanguage } from "../utils/tool-call";
+
+import LoadingIcon from "../icons/three-dots.svg";
+import ReloadIcon from "../icons/reload.svg";
+import EditIcon from "../icons/edit.svg";
+import StopIcon from "../icons/pause.svg";
+
+const Markdown = dynamic(async () => (await import("./markdown")).Markdown, {
+  loading: () => <LoadingIcon />,
+});
+
+const MimeOutput = dynamic(
+  async () => (await import("./markdown")).MimeOutput,
+  {
+    loading: () => <LoadingIcon />,
+  },
+);
+
+function formatOutput(output: string) {
+  try {
+    return "```json\n" + JSON.stringify(JSON.parse(output), null, 2) + "\n```";
+  } catch {
+    return "```\n" + output + "\n```";
+  }
+}
+
+function getStatusIcon(status: ToolCall["status"]) {
+  return status === "running" ? (
+    <span className="execution-spinner">🔄</span>
+  ) : status === "error" ? (
+    "❌"
+  ) : (
+    "✅"
+  );
+}
+
+function formatDuration(call: ToolCall | ToolCallRun) {
+  if (!call.endTime) return "";
+  const seconds = (call.endTime - call.startTime) / 1000;
+  return seconds < 1
+    ? `${Math.round(seconds * 1000)}ms`
+    : `${seconds.toFixed(1)}s`;
+}
+
+/**
+ * Stdout and stderr of the call, following the latest output while it runs
+ */
+function TerminalOutput(props: { output: string }) {
+  const ref = useRef<HTMLPreElement>(null);
+
+  useEffect(() => {
+    if (ref.current) {
+      ref.current.scrollTop = ref.current.scrollHeight;
+    }
+  }, [props.output]);
+
+  return (
+    <pre ref={ref} className={styles["tool-call-console"]}>
+      {parseAnsi(props.output.replace(/\r/g, "")).map((segment, index) => (
+        <span
+          key={index}
+          style={{
+            color: segment.color,
+            fontWeight: segment.bold ? 600 : undefined,
+          }}
+        >
+          {segment.text}
+        </span>
+      ))}
+    </pre>
+  );
+}
+
+function ToolCallRunOutput(props: {
+  run: ToolCallRun;
+  index: number;
+  originalCode: string;
+  language: string;
+  fontSize?: number;
+}) {
+  const { run } = props;
+  return (
+    <div className={styles["tool-call-run"]}>
+      <div className={styles["tool-call-label"]}>
+        {getStatusIcon(run.status)} {Locale.Chat.ToolCall.Rerun(props.index)}
+        {formatDuration(run) && ` · ${formatDuration(run)}`}
+      </div>
+      {run.code !== props.originalCode && (
+        <Markdown
+          content={"```" + props.language + "\n" + run.code + "\n```"}
+          fontSize={props.fontSize}
+        />
+      )}
+      {run.output ? (
+        <Markdown
+          content={"```\n" + run.output + "\n```"}
+          fontSize={props.fontSize}
+        />
+      ) : run.displays ? null : (
+        <div className={styles["tool-call-empty"]}>
+          {run.status === "running"
+            ? Locale.Chat.ToolCall.Waiting
+            : Locale.Chat.ToolCall.NoOutput}
+        </div>
+      )}
+      {run.displays?.map((bundle, index) => (
+        <MimeOutput key={index} bundle={bundle} fontSize={props.fontSize} />
+      ))}
+    </div>
+  );
+}
+
+export function ToolCallCard(props: {
+  call: ToolCall;
+  fontSize?: number;
+  // Re-execute code in the agent kernel, only offered for code calls
+  onRerun?: (code: string) => void;
+  // Interrupt the code while it runs, without stopping the whole reply
+  onStop?: () => void;
+  // Open with code and output shown, e.g. in exports
+  defaultExpanded?: boolean;
+}) {
+  const { call } = props;
+  const [expanded, setExpanded] = useState(!!props.defaultExpanded);
+
+  const args = { ...(call.arguments ?? {}) };
+  const code = typeof args.code === "string" ? args.code : undefined;
+  delete args.code;
+
+  const canRerun = !!props.onRerun && code !== undefined;
+  const rerunning = call.reruns?.some((run) => run.status === "running");
+
+  const editAndRun = async () => {
+    const editedCode = await showQuestion(
+      Locale.Chat.ToolCall.EditCode,
+      call.reruns?.at(-1)?.code ?? code,
+      12,
+    );
+    if (editedCode?.trim()) {
+      props.onRerun?.(editedCode);
+    }
+  };
+
+  const statusIcon = getStatusIcon(call.status);
+  const statusText = Locale.Chat.ToolCall.Status[call.status];
+
+  return (
+    <div className={`${styles["tool-call"]} ${styles[call.status]}`}>
+      <div
+        className={styles["tool-call-header"]}
+        onClick={() => setExpanded(!expanded)}
+      >
+        <div className={styles["tool-call-title"]}>
+          {statusIcon}
+          <code>{call.name}</code>
+          <span className={styles["tool-call-status"]}>
+            {statusText}
+            {formatDuration(call) && ` · ${formatDuration(call)}`}
+          </span>
+        </div>
+        <div className={styles["tool-call-header-actions"]}>
+          {props.onStop && call.status === "running" && code !== undefined && (
+            <div onClick={(e) => e.stopPropagation()}>
+              <IconButton
+                icon={<StopIcon />}
+                text={Locale.Chat.ToolCall.Stop}
+                bordered
+                onClick={props.onStop}
+              />
+            </div>
+          )}
+          {expanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+        </div>
+      </div>
+      {!expanded && call.status === "running" && call.liveOutput && (
+        <div className={styles["tool-call-live"]}>
+          <TerminalOutput output={call.liveOutput} />
+        </div>
+      )}
+      {expanded && (
+        <div className={styles["tool-call-body"]}>
+          {code !== undefined && (
+            <>
+              <div className={styles["tool-call-label"]}>
+                {Locale.Chat.ToolCall.Code}
+              </div>
+              <Markdown
+                content={
+                  "```" + getToolCallLanguage(call) + "\n" + code + "\n```"
+                }
+                fontSize={props.fontSize}
+              />
+            </>
+          )}
+          {Object.keys(args).length > 0 && (
+            <>
+              <div className={styles["tool-call-label"]}>
+                {Locale.Chat.ToolCall.Arguments}
+              </div>
+              <Markdown
+                content={"```json\n" + JSON.stringify(args, null, 2) + "\n```"}
+                fontSize={props.fontSize}
+              />
+            </>
+          )}
+          {call.liveOutput && (
+            <>
+              <div className={styles["tool-call-label"]}>
+                {Locale.Chat.ToolCall.Console}
+              </div>
+              <TerminalOutput output={call.liveOutput} />
+            </>
+          )}
+          <div className={styles["tool-call-label"]}>
+            {Locale.Chat.ToolCall.Output}
+          </div>
+          {call.output ? (
+            <Markdown
+              content={formatOutput(call.output)}
+              fontSize={props.fontSize}
+            />
+          ) : call.displays ? null : (
+            <div className={styles["tool-call-empty"]}>
+              {call.status === "running"
+                ? Locale.Chat.ToolCall.Waiting
+                : Locale.Chat.ToolCall.NoOutput}
+            </div>
+          )}
+          {call.reruns?.map((run, index) => (
+            <ToolCallRunOutput
+              key={run.id}
+              run={run}
+              index={index + 1}
+              originalCode={code ?? ""}
+              language={getToolCallLanguage(call)}
+              fontSize={props.fontSize}
+            />
+          ))}
+          {canRerun && (
+            <div className={styles["tool-call-actions"]}>
+              <IconButton
+                icon={<ReloadIcon />}
+                text={Locale.Chat.ToolCall.RunAgain}
+                bordered
+                disabled={rerunning || call.status === "running"}
+                onClick={() => props.onRerun?.(code!)}
+              />
+              <IconButton
+                icon={<EditIcon />}
+                text={Locale.Chat.ToolCall.EditAndRun}
+                bordered
+                disabled={rerunning || call.status === "running"}
+                onClick={editAndRun}
+              />
+            </div>
+          )}
+        </div>
+      )}
+      {/* Figures and tables stay visible while the card is collapsed */}
+      {call.displays && (
+        <div className={styles["tool-call-displays"]}>
+          {call.displays.map((bundle, index) => (
+            <MimeOutput key={index} bundle={bundle} fontSize={props.fontSize} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import ConfirmIcon from "../icons/confirm.svg";
 import CancelIcon from "../icons/cancel.svg";
 import MaxIcon from "../icons/max.svg";
 import MinIcon from "../icons/min.svg";
+import UploadIcon from "../icons/upload.svg";
 
 import Locale from "../locales";
 
@@ -466,6 +467,159 @@ export function showPrompt(content: any, value = "", rows = 3) {
   });
 }
 
+export function showAlert(content: any, title = Locale.UI.Confirm) {
+  const div = document.createElement("div");
+  div.className = "screen-model-container";
+  document.body.appendChild(div);
+
+  const root = createRoot(div);
+
+  return new Promise<void>((resolve) => {
+    const closeModal = () => {
+      resolve();
+      root.unmount();
+      div.remove();
+    };
+
+    root.render(
+      <Modal
+        title={title}
+        actions={[
+          <IconButton
+            key="confirm"
+            text={Locale.UI.Confirm}
+            type="primary"
+            onClick={closeModal}
+            icon={<ConfirmIcon />}
+            tabIndex={0}
+            autoFocus
+            bordered
+            shadow
+          ></IconButton>,
+        ]}
+        onClose={closeModal}
+      >
+        {content}
+      </Modal>,
+    );
+  });
+}
+
+// Like showPrompt, but resolves with null when the user dismisses the modal
+export function showQuestion(content: any, value = "", rows = 3) {
+  const div = document.createElement("div");
+  div.className = "screen-model-container";
+  document.body.appendChild(div);
+
+  const root = createRoot(div);
+
+  return new Promise<string | null>((resolve) => {
+    let userInput = value;
+    const closeModal = (answer: string | null) => {
+      resolve(answer);
+      root.unmount();
+      div.remove();
+    };
+
+    root.render(
+      <Modal
+        title={content}
+        actions={[
+          <IconButton
+            key="cancel"
+            text={Locale.UI.Cancel}
+            onClick={() => closeModal(null)}
+            icon={<CancelIcon />}
+            bordered
+            shadow
+            tabIndex={0}
+          ></IconButton>,
+          <IconButton
+            key="confirm"
+            text={Locale.UI.Confirm}
+            type="primary"
+            onClick={() => closeModal(userInput)}
+            icon={<ConfirmIcon />}
+            bordered
+            shadow
+            tabIndex={0}
+          ></IconButton>,
+        ]}
+        onClose={() => closeModal(null)}
+      >
+        <PromptInput
+          onChange={(val) => (userInput = val)}
+          value={value}
+          rows={rows}
+        ></PromptInput>
+      </Modal>,
+    );
+  });
+}
+
+// Browsers only open file dialogs from a user gesture, so the picker is
+// triggered from a button inside the modal rather than programmatically
+export function showFilePicker(
+  content: any,
+  options: { accept?: string; multiple?: boolean } = {},
+) {
+  const div = document.createElement("div");
+  div.className = "screen-model-container";
+  document.body.appendChild(div);
+
+  const root = createRoot(div);
+
+  return new Promise<File[]>((resolve) => {
+    const closeModal = (files: File[]) => {
+      resolve(files);
+      root.unmount();
+      div.remove();
+    };
+
+    const pickFiles = () => {
+      const fileInput = document.createElement("input");
+      fileInput.type = "file";
+      fileInput.accept = options.accept ?? "";
+      fileInput.multiple = !!options.multiple;
+      fileInput.onchange = () => {
+        closeModal(Array.from(fileInput.files ?? []));
+      };
+      fileInput.click();
+    };
+
+    root.render(
+      <Modal
+        title={Locale.AgentBridge.FilePicker.Title}
+        actions={[
+          <IconButton
+            key="cancel"
+            text={Locale.UI.Cancel}
+            onClick={() => closeModal([])}
+            icon={<CancelIcon />}
+            bordered
+            shadow
+            tabIndex={0}
+          ></IconButton>,
+          <IconButton
+            key="pick"
+            text={Locale.AgentBridge.FilePicker.Choose}
+            type="primary"
+            onClick={pickFiles}
+            icon={<UploadIcon />}
+            autoFocus
+            bordered
+            shadow
+            tabIndex={0}
+          ></IconButton>,
+        ]}
+        onClose={() => closeModal([])}
+      >
+        {content}
+      </Modal>,
+    );
+  });
+}
+
 export function showImageModal(img: string) {
   showModal({
     title: Locale.Export.Image.Modal,
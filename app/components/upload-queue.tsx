@@ -0,0 +1,97 @@
+import React from "react";
+
+import styles from "./upload-queue.module.scss";
+import Locale from "../locales";
+import { IconButton } from "./button";
+import { UploadTask, useUploadStore } from "../store/upload";
+
+import PauseIcon from "../icons/pause.svg";
+import ReloadIcon from "../icons/reload.svg";
+import CloseIcon from "../icons/close.svg";
+import ClearIcon from "../icons/clear.svg";
+
+export function formatBytes(size: number) {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  if (size < 1024 * 1024 * 1024) return `${(size / 1024 / 1024).toFixed(1)} MB`;
+  return `${(size / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
+
+function UploadItem(props: { task: UploadTask }) {
+  const { task } = props;
+  const uploadStore = useUploadStore();
+  const percent = task.size
+    ? Math.round((task.uploaded / task.size) * 100)
+    : 100;
+
+  return (
+    <div className={styles["upload-item"]}>
+      <div className={styles["upload-item-header"]}>
+        <span className={styles["upload-item-name"]} title={task.filePath}>
+          {task.filePath}
+        </span>
+        <div className={styles["upload-item-actions"]}>
+          {(task.status === "uploading" || task.status === "queued") && (
+            <IconButton
+              icon={<PauseIcon />}
+              title={Locale.UploadQueue.Pause}
+              onClick={() => uploadStore.pause(task.id)}
+            />
+          )}
+          {(task.status === "paused" || task.status === "error") && (
+            <IconButton
+              icon={<ReloadIcon />}
+              title={
+                task.status === "error"
+                  ? Locale.UploadQueue.Retry
+                  : Locale.UploadQueue.Resume
+              }
+              onClick={() => uploadStore.resume(task.id)}
+            />
+          )}
+          {task.status !== "completed" && task.status !== "cancelled" && (
+            <IconButton
+              icon={<CloseIcon />}
+              title={Locale.UploadQueue.Cancel}
+              onClick={() => uploadStore.cancel(task.id)}
+            />
+          )}
+        </div>
+      </div>
+      <div className={styles["upload-progress"]}>
+        <div
+          className={`${styles["upload-progress-bar"]} ${styles[task.status]}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <div className={styles["upload-item-status"]}>
+        {Locale.UploadQueue.Status[task.status]} · {formatBytes(task.uploaded)}{" "}
+        / {formatBytes(task.size)} ({percent}%)
+        {task.error && ` · ${task.error}`}
+      </div>
+    </div>
+  );
+}
+
+export function UploadQueue() {
+  const uploadStore = useUploadStore();
+  const tasks = uploadStore.tasks;
+
+  if (tasks.length === 0) return null;
+
+  return (
+    <div className={styles["upload-queue"]}>
+      <div className={styles["upload-queue-header"]}>
+        <span>{Locale.UploadQueue.Title(tasks.length)}</span>
+        <IconButton
+          icon={<ClearIcon />}
+          text={Locale.UploadQueue.ClearFinished}
+          onClick={() => uploadStore.clearFinished()}
+        />
+      </div>
+      {tasks.map((task) => (
+        <UploadItem key={task.id} task={task} />
+      ))}
+    </div>
+  );
+}
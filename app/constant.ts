@@ -13,6 +13,10 @@ export enum Path {
   Chat = "/chat",
   Settings = "/settings",
   Templates = "/templates",
+  Files = "/files",
+  AgentEditor = "/agent-editor",
+  Compare = "/compare",
+  Agents = "/agents",
 }
 
 export enum ApiPath {
@@ -37,6 +41,8 @@ export enum StoreKey {
   Prompt = "prompt-store",
   Update = "chat-update",
   Sync = "sync",
+  Connection = "connection-profiles",
+  KernelTokens = "kernel-tokens",
 }
 
 export const DEFAULT_SIDEBAR_WIDTH = 320;
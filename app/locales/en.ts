@@ -11,6 +11,8 @@ const en = {
   },
   Chat: {
     SubTitle: (count: number) => `${count} messages`,
+    OutputNotSaved: (size: number) =>
+      `_This output (${size} KB) was too large to keep after reloading the page_`,
     EditMessage: {
       Title: "Edit All Messages",
       Topic: {
@@ -57,8 +59,61 @@ const en = {
       UploadImage: "Upload Images",
       UploadFile: "Upload File",
     },
+    ToolCall: {
+      Status: {
+        running: "Running",
+        completed: "Completed",
+        error: "Failed",
+      },
+      Code: "Code",
+      Stop: "Stop Cell",
+      StopFailed: "Failed to stop the running code",
+      Arguments: "Arguments",
+      Output: "Output",
+      Console: "Console",
+      Waiting: "Waiting for output…",
+      NoOutput: "No output",
+      RunAgain: "Run Again",
+      EditAndRun: "Edit & Run",
+      EditCode: "Edit code and run it in the agent kernel",
+      Rerun: (index: number) => `Re-run #${index}`,
+    },
+    VisionWarning: {
+      Title: "This agent may not understand images",
+      Content: (agentName: string) =>
+        `${agentName || "The selected agent"} does not declare vision support. Attached images will still be forwarded, but the agent may ignore them.`,
+    },
+    CodeReview: {
+      Title: "Review Code Before Running",
+      Risks: (risks: string) => `Possibly risky: ${risks}`,
+      RiskNames: {
+        deletion: "file deletion",
+        network: "network access",
+        token: "token or environment use",
+      },
+      ReasonHint: "Reason for rejecting (sent to the agent)",
+      Approve: "Run",
+      RunEdited: "Run Edited Code",
+      Reject: "Reject",
+      Rejected: "Code rejected, the agent was told why",
+    },
+    Handoff: {
+      Title: "Hand Off Conversation",
+      Agents: (from: string, to: string) => `${from} → ${to}`,
+      SubTitle:
+        "The new agent continues this conversation with the full chat history",
+      Summary: "Handoff Summary",
+      SummaryHint: (agent: string) =>
+        `Ask ${agent} to summarize the work so far for the new agent`,
+      Summarizing: (agent: string) => `${agent} is summarizing...`,
+      SummaryFailed:
+        "Failed to write a handoff summary, handing off without it",
+      Confirm: "Hand Off",
+      Done: (agent: string) => `Handed off to ${agent}`,
+    },
     Rename: "Rename Chat",
     Typing: "Typing…",
+    Interrupted: "Interrupted",
     Input: (submitKey: string) => {
       var inputHints = `${submitKey} to send`;
       if (submitKey === String(SubmitKey.Enter)) {
@@ -71,6 +126,45 @@ const en = {
       Reset: "Reset to Default",
       SaveAs: "Save Prompts",
       Confirm: "Confirm",
+      Runtime: {
+        Title: "Agent Runtime",
+        SubTitle:
+          "Overrides for this chat. The agent and its kernel restart when the dialog is closed after a change.",
+        KernelType: "Kernel",
+        KernelTypes: {
+          PYTHON: "Python",
+          TYPESCRIPT: "TypeScript",
+          JAVASCRIPT: "JavaScript",
+        },
+        MaxSteps: {
+          Title: "Max Steps",
+          SubTitle: "Maximum number of reasoning and tool steps per reply",
+        },
+        Planning: {
+          Title: "Planning",
+          SubTitle: "Let the agent plan before acting",
+        },
+        Environs: {
+          Title: "Kernel Environment",
+          SubTitle: "One KEY=value per line",
+        },
+        Secrets: {
+          Title: "Secrets",
+          SubTitle:
+            "Vault secrets injected as environment variables and redacted from the chat",
+          Locked: (count: number) =>
+            `${count} selected, unlock the vault in Settings to change them`,
+          NotInjected:
+            "The secrets vault is locked, selected secrets were not injected",
+          LockedChat:
+            "Unlock the secrets vault in Settings first, this chat uses secrets that can't be redacted while it is locked",
+        },
+        Instructions: {
+          Title: "Extra Instructions",
+          SubTitle: "Appended to the agent's instructions",
+        },
+        Restarted: "Agent restarted with the new runtime settings",
+      },
     },
     IsContext: "System Prompt",
   },
@@ -83,16 +177,32 @@ const en = {
     Share: "Share",
     Format: {
       Title: "Export Format",
-      SubTitle: "Markdown or PNG Image",
+      SubTitle:
+        "Markdown, PNG Image, HTML, print or save as PDF, JSON, Jupyter Notebook or a zip bundle for reproducibility",
+      Names: {
+        pdf: "Print / Save as PDF",
+      } as Record<string, string>,
     },
     IncludeContext: {
       Title: "Including Context",
       SubTitle: "Export context prompts in template or not",
     },
+    IncludeSetup: {
+      Title: "Including Environment Setup",
+      SubTitle:
+        "Start the notebook with the agent's package installs and Hypha connection",
+    },
     Steps: {
       Select: "Select",
       Preview: "Preview",
     },
+    Document: {
+      Printing: "Choose Save as PDF in the print dialog",
+    },
+    Bundle: {
+      Collecting: "Collecting the session's code, outputs and environment…",
+      Failed: (error: string) => `Failed to build the bundle: ${error}`,
+    },
     Image: {
       Toast: "Capturing Image...",
       Modal: "Long press or right click to save image",
@@ -122,6 +232,41 @@ const en = {
   Settings: {
     Title: "Settings",
     SubTitle: "All Settings",
+    Connection: {
+      Profile: {
+        Title: "Connection Profile",
+        SubTitle: (serverUrl: string) => `Hypha server: ${serverUrl}`,
+      },
+      Manage: {
+        Title: "Manage Profiles",
+        SubTitle: "Connect to a self-hosted Hypha server or workspace",
+        Edit: "Edit",
+        Add: "Add",
+        Delete: "Delete",
+        NewName: "New Profile",
+      },
+      Agents: {
+        Title: "Running Agents",
+        SubTitle: "Inspect and destroy the agents running on the engine",
+        Manage: "Manage",
+      },
+      SwitchConfirm:
+        "Switching the connection profile logs you out. Log in again on the new server afterwards. Continue?",
+      DeleteConfirm: (name: string) =>
+        `Delete the connection profile "${name}"? You will be logged out.`,
+      Modal: {
+        Title: "Edit Connection Profile",
+        Name: "Name",
+        ServerUrl: "Server URL",
+        ApplyHint: "Log in again to apply changes to the active profile",
+        Workspace: "Workspace",
+        WorkspaceHint: "Workspace hosting the agent catalog",
+        AgentCollection: "Agent Collection",
+        AgentCollectionHint: "Alias of the agent collection in the workspace",
+        EngineServiceId: "Engine Service ID",
+        EngineServiceIdHint: "Full id of the deno-app-engine service",
+      },
+    },
     Danger: {
       Reset: {
         Title: "Reset All Settings",
@@ -153,6 +298,93 @@ const en = {
       Title: "Input Template",
       SubTitle: "Newest message will be filled to this template",
     },
+    Vault: {
+      Title: "Secrets Vault",
+      SubTitle:
+        "Keep API keys encrypted in this browser and inject them into agent kernels",
+      Locked: "Locked, unlock to use or edit secrets",
+      Unlocked: (count: number) => `Unlocked, ${count} secrets`,
+      Create: "Create",
+      Unlock: "Unlock",
+      Lock: "Lock",
+      Reset: "Reset",
+      ResetConfirm:
+        "Delete the vault and all of its secrets? This can't be undone.",
+      Passphrase: {
+        CreateTitle: "Create Secrets Vault",
+        UnlockTitle: "Unlock Secrets Vault",
+        Title: "Passphrase",
+        Hint: "The passphrase can't be recovered, secrets are lost without it",
+        Repeat: "Repeat Passphrase",
+        Mismatch: "The passphrases don't match",
+        Wrong: "Wrong passphrase",
+      },
+      Secret: {
+        Title: "Edit Secret",
+        Name: "Name",
+        NameHint: "Environment variable name in the kernel",
+        Value: "Value",
+        InvalidName:
+          "Use letters, digits and underscores, not starting with a digit",
+        Add: "Add Secret",
+        Edit: "Edit",
+        Delete: "Delete",
+        DeleteConfirm: (name: string) => `Delete the secret ${name}?`,
+      },
+    },
+    KernelToken: {
+      Permission: {
+        Title: "Kernel Token Permission",
+        SubTitle:
+          "Agent kernels get their own token for your workspace instead of your login token, read only unless they need to write files",
+        Options: {
+          read: "Read only",
+          read_write: "Read and write",
+        },
+      },
+      Workspace: {
+        Title: "Kernel Token Workspace",
+        SubTitle:
+          "Tokens can't be limited to a single project, kernels can reach every project artifact of this workspace",
+        Placeholder: "Current workspace",
+      },
+      Expiry: {
+        Title: "Kernel Token Expiry",
+        SubTitle:
+          "Tokens close to expiry are replaced before the agent's next reply",
+        Option: (minutes: number) =>
+          minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hours`,
+      },
+      Live: {
+        Title: "Live Kernel Tokens",
+        SubTitle: (count: number) =>
+          `${count} tokens, revoked when their agent is destroyed. Tokens are not saved, those issued before reloading the page can only expire.`,
+        NoSession: "Agent without a session",
+        Token: (permission: string, expiresAt: string, projectId?: string) =>
+          `${permission} on the whole workspace, expires ${expiresAt}` +
+          (projectId ? `, HYPHA_PROJECT_ID ${projectId}` : ""),
+        Revoke: "Revoke",
+      },
+    },
+    CodeApproval: {
+      Title: "Approve Agent Code",
+      SubTitle:
+        "Review code written by agents before it runs in a kernel with your Hypha token",
+      Options: {
+        off: "Never",
+        always: "Every call",
+        risky: "Risky calls only",
+      },
+    },
+    AgentSessionMode: {
+      Title: "Agent Sessions",
+      SubTitle:
+        "Persistent sessions keep the agent's conversation and kernel state on the server and only send new messages",
+      Options: {
+        stateful: "Persistent",
+        stateless: "Replay history every turn",
+      },
+    },
 
     Update: {
       Version: (x: string) => `Version: ${x}`,
@@ -282,6 +514,11 @@ const en = {
         "Please generate a four to five word title summarizing our conversation without any lead-in, punctuation, quotation marks, periods, symbols, bold text, or additional text. Remove enclosing quotation marks.",
       Summarize:
         "Summarize the discussion briefly in 200 words or less to use as a prompt for future context.",
+      HandoffRequest:
+        "Another assistant is taking over this conversation. Summarize the user's goals, what has been done so far, important results, files and variables, and any open questions in 200 words or less so they can continue the work.",
+      Handoff: (agent: string, content: string) =>
+        `You are taking over this conversation from ${agent}. This is their handoff summary: ` +
+        content,
     },
   },
   Copy: {
@@ -368,6 +605,188 @@ const en = {
     Sync: "Sync",
     Config: "Config",
   },
+  KernelInspector: {
+    Title: "Kernel",
+    Toggle: "Kernel Inspector",
+    Refresh: "Refresh",
+    Interrupt: "Interrupt",
+    Interrupted: "Kernel interrupted",
+    Restart: "Restart",
+    ConfirmRestart:
+      "Restart the kernel? All variables will be lost and the environment setup has to be run again.",
+    Restarted: "Kernel restarted",
+    RerunSetup: "Re-run Setup",
+    SetupDone: "Environment setup finished",
+    Variables: (count: number) => `Variables (${count})`,
+    Packages: (count: number) => `Packages (${count})`,
+    NoVariables: "No variables defined yet",
+    NoKernel: "No kernel yet, it starts with the first message",
+    PythonOnly:
+      "Variables and packages can only be inspected in Python kernels",
+  },
+  FileBrowser: {
+    Name: "Files",
+    Title: "Project Files",
+    SubTitle: (count: number, project: string) =>
+      `${count} items in ${project || "the default project"}`,
+    LoginRequired: "Please log in to manage project files",
+    Project: {
+      Default: "Default Project",
+      New: "New Project",
+      NewName: "Project name",
+      Created: (name: string) => `Project "${name}" created`,
+      Delete: "Delete Project",
+      ConfirmDelete: (name: string) =>
+        `Delete project "${name}" and all of its files? Sessions using it switch back to the default project.`,
+    },
+    UploadFiles: "Upload Files",
+    UploadFolder: "Upload Folder",
+    Uploading: (count: number) => `Uploading ${count} file(s)...`,
+    DropHint: "Drop files or folders here to upload",
+    Empty: "No files in this folder yet",
+    Refresh: "Refresh",
+    Commit: "Commit Version",
+    CommitComment: "Describe this version (optional)",
+    Committed: "Project version committed",
+    Column: {
+      Name: "Name",
+      Size: "Size",
+      Modified: "Modified",
+    },
+    Preview: "Preview",
+    PreviewUnsupported: "Preview is not available for this file type",
+    PreviewTruncated: (rows: number) => `Showing the first ${rows} rows`,
+    Download: "Download",
+    Rename: "Rename",
+    RenameTo: "New file path",
+    Delete: "Delete",
+    ConfirmDelete: (name: string) => `Delete "${name}" from the project?`,
+    InsertToChat: "Insert into Chat",
+    FileReference: (path: string) =>
+      `Use the project file "${path}" (available in the kernel via the HYPHA_PROJECT_ID artifact).`,
+  },
+  AgentEditor: {
+    CreateTitle: "Create Agent",
+    EditTitle: "Edit Agent",
+    CreateSubTitle: "Write the manifest and test it before publishing",
+    EditSubTitle: (id: string) => `Publishing creates a new version of ${id}`,
+    Test: "Test",
+    Publish: "Publish",
+    PublishVersion: "Publish Version",
+    Published: "Agent published",
+    PublishedVersion: "New agent version published",
+    VersionComment: "Describe the changes in this version (optional)",
+    ScratchTopic: (name: string) => `Testing ${name}`,
+    Edit: "Edit",
+    Preview: "Preview",
+    Fields: {
+      Name: "Name",
+      Description: "Description",
+      Emoji: "Emoji",
+      Icon: "Icon",
+      IconHint: "URL or path of an icon image",
+      Tags: "Tags",
+      TagsHint: "Comma separated",
+      Covers: "Covers",
+      CoversHint: "One image URL or path per line",
+      WelcomeMessage: "Welcome Message",
+      Instructions: "Instructions",
+      StartupScript: "Startup Script",
+      StartupScriptHint: "# Python code run in the agent kernel at startup",
+    },
+    Errors: {
+      Invalid: "Please fix the highlighted fields",
+      Required: "This field is required",
+      TooLong: (max: number) => `Must be at most ${max} characters`,
+      InvalidUrl: "Must be an http(s) URL or a ./ relative file path",
+      InvalidCover: (cover: string) => `Invalid cover: ${cover}`,
+    },
+    Create: "Create Agent",
+    EditAgent: "Edit Agent",
+  },
+  ConnectionStatus: {
+    State: {
+      connected: "Connected",
+      degraded: "Slow connection",
+      reconnecting: "Reconnecting...",
+      offline: "Offline",
+    },
+    Reconnecting: (attempt: number) => `Reconnecting (attempt ${attempt})...`,
+    Retry: "Offline, click to reconnect",
+  },
+  AgentManager: {
+    Title: "Running Agents",
+    SubTitle: (count: number) => `${count} agents on the engine`,
+    EngineLoad: (load: number) =>
+      `Engine load: ${Math.round(load * 100) / 100}`,
+    LoginRequired: "Log in to manage your agents",
+    Empty: "No agents are running",
+    Refresh: "Refresh",
+    DestroySelected: (count: number) => `Destroy Selected (${count})`,
+    DestroyOrphaned: (count: number) => `Destroy Orphaned (${count})`,
+    DestroyConfirm: (count: number) =>
+      `Destroy ${count} agents? Their kernels and conversation state are lost.`,
+    Destroyed: (count: number) => `Destroyed ${count} agents`,
+    DestroyFailed: (count: number) => `Failed to destroy ${count} agents`,
+    ListFailed: (error: string) => `Failed to list agents: ${error}`,
+    Orphaned: "Orphaned",
+    Comparison: "comparison",
+    Columns: {
+      Agent: "Agent",
+      Session: "Session",
+      Age: "Age",
+      Status: "Status",
+    },
+    Age: {
+      Minutes: (count: number) => `${count} min`,
+      Hours: (count: number) => `${count} h`,
+      Days: (count: number) => `${count} d`,
+    },
+  },
+  Compare: {
+    Title: "Compare Agents",
+    SubTitle: (topic: string) => `The kept reply is added to "${topic}"`,
+    Toggle: "Compare Agents",
+    LoginRequired: "Please log in to compare agents",
+    SelectHint: (max: number) => `Select 2 to ${max} agents to compare`,
+    Prompt: "Ask all selected agents the same question",
+    Send: "Compare",
+    Stop: "Stop",
+    AgentLabel: "comparison",
+    PickWinner: "Keep This Reply",
+    Kept: (name: string) => `Kept the reply of ${name}`,
+    Alternates: (count: number) => `${count} alternate replies`,
+    Status: {
+      creating: "Starting agent...",
+      streaming: "Answering...",
+      done: "Done",
+      error: "Failed",
+    },
+  },
+  UploadQueue: {
+    Title: (count: number) => `Uploads (${count})`,
+    Pause: "Pause",
+    Resume: "Resume",
+    Retry: "Retry",
+    Cancel: "Cancel",
+    ClearFinished: "Clear Finished",
+    Status: {
+      queued: "Queued",
+      uploading: "Uploading",
+      paused: "Paused",
+      completed: "Completed",
+      error: "Failed",
+      cancelled: "Cancelled",
+    },
+  },
+  AgentBridge: {
+    AlertTitle: "Message from Agent",
+    FilePicker: {
+      Title: "The agent requests a file",
+      Choose: "Choose File",
+      Accept: (accept: string) => `Accepted types: ${accept}`,
+    },
+  },
   Exporter: {
     Description: {
       Title: "Only messages after clearing the context will be displayed",
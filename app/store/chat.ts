@@ -3,7 +3,13 @@ import { trimTopic, getMessageTextContent } from "../utils";
 import log from "loglevel";
 import Locale, { getLang } from "../locales";
 import { showToast } from "../components/ui-lib";
-import { ModelConfig, Model, useAppConfig, ConfigType } from "./config";
+import {
+  ModelConfig,
+  Model,
+  ModelClient,
+  useAppConfig,
+  ConfigType,
+} from "./config";
 import { createEmptyTemplate, Template } from "./template";
 import {
   DEFAULT_INPUT_TEMPLATE,
@@ -11,23 +17,161 @@ import {
   DEFAULT_SYSTEM_TEMPLATE,
   StoreKey,
 } from "../constant";
-import { RequestMessage, MultimodalContent, LLMApi } from "../client/api";
+import {
+  RequestMessage,
+  MultimodalContent,
+  LLMApi,
+  MimeBundle,
+  ToolCall,
+  ToolCallRun,
+} from "../client/api";
 import { estimateTokenLength } from "../utils/token";
+import { appendTerminalOutput } from "../utils/ansi";
 import { nanoid } from "nanoid";
 import { createPersistStore } from "../utils/store";
 import { ChatCompletionFinishReason, CompletionUsage } from "@mlc-ai/web-llm";
 import { ChatImage } from "../typing";
+import { AgentRuntimeSettings } from "../client/hypha-agent";
+import { redactSecretsDeep } from "./vault";
+
+// Replies stopped by the user or a reload are marked as interrupted
+export type MessageStopReason = ChatCompletionFinishReason | "interrupted";
 
 export type ChatMessage = RequestMessage & {
   date: string;
   streaming?: boolean;
   isError?: boolean;
   id: string;
-  stopReason?: ChatCompletionFinishReason;
+  stopReason?: MessageStopReason;
   model?: Model;
   usage?: CompletionUsage;
+  // Content rendered by the agent through the UI bridge, as markdown
+  renders?: string[];
+  toolCalls?: ToolCall[];
+  alternates?: AlternateReply[];
+  // Agent that produced an assistant message
+  agent?: SessionAgent;
 };
 
+export type SessionAgent = NonNullable<ModelConfig["selectedAgent"]>;
+
+// Summary of the conversation written by the previous agent of a session
+export interface AgentHandoff {
+  from: SessionAgent;
+  to: SessionAgent;
+  summary?: string;
+  date: string;
+}
+
+// Reply of another agent to the same prompt, kept when comparing agents
+export interface AlternateReply {
+  agentId: string;
+  agentName: string;
+  content: string;
+  toolCalls?: ToolCall[];
+}
+
+// Agents report failures as tracebacks or JSON with an error status
+export function isToolCallError(output?: string) {
+  if (!output) return false;
+  const text = output.trim();
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed && typeof parsed === "object") {
+      return parsed.status === "error" || !!parsed.error;
+    }
+  } catch {}
+  return /^(Error|Exception)\b|Traceback \(most recent call last\)/.test(text);
+}
+
+// Mark calls that never received an output as failed
+// Reruns started before the page was loaded can no longer finish
+const PAGE_LOADED_AT = Date.now();
+
+function settle<T extends ToolCall | ToolCallRun>(execution: T): T {
+  return execution.status === "running"
+    ? {
+        ...execution,
+        status: "error" as const,
+        endTime: execution.endTime ?? Date.now(),
+      }
+    : execution;
+}
+
+export function settleToolCalls(toolCalls?: ToolCall[]) {
+  return toolCalls?.map((call) =>
+    settle({ ...call, reruns: call.reruns?.map(settle) }),
+  );
+}
+
+function settleStaleReruns(toolCalls?: ToolCall[]) {
+  return toolCalls?.map((call) =>
+    call.reruns?.some(
+      (run) => run.status === "running" && run.startTime < PAGE_LOADED_AT,
+    )
+      ? {
+          ...call,
+          reruns: call.reruns.map((run) =>
+            run.startTime < PAGE_LOADED_AT ? settle(run) : run,
+          ),
+        }
+      : call,
+  );
+}
+
+// localStorage only holds a few MB, larger figures and renders are replaced
+// by a note when saving
+const MAX_PERSISTED_OUTPUT_LENGTH = 200 * 1024;
+const displayLengths = new WeakMap<MimeBundle, number>();
+
+function getDisplayLength(bundle: MimeBundle) {
+  let length = displayLengths.get(bundle);
+  if (length === undefined) {
+    length = JSON.stringify(bundle).length;
+    displayLengths.set(bundle, length);
+  }
+  return length;
+}
+
+const outputNotSaved = (length: number) =>
+  Locale.Chat.OutputNotSaved(Math.round(length / 1024));
+
+function capDisplays(displays?: MimeBundle[]) {
+  return displays?.map((bundle) => {
+    const length = getDisplayLength(bundle);
+    return length > MAX_PERSISTED_OUTPUT_LENGTH
+      ? { "text/markdown": outputNotSaved(length) }
+      : bundle;
+  });
+}
+
+// Copy of a session as saved, live output is only kept while the page is open
+function toPersistedSession(session: ChatSession): ChatSession {
+  return {
+    ...session,
+    messages: session.messages.map((message) =>
+      message.toolCalls || message.renders
+        ? {
+            ...message,
+            toolCalls: message.toolCalls?.map(({ liveOutput, ...call }) => ({
+              ...call,
+              displays: capDisplays(call.displays),
+              reruns: call.reruns?.map((run) => ({
+                ...run,
+                displays: capDisplays(run.displays),
+              })),
+            })),
+            renders: message.renders?.map((render) =>
+              render.length > MAX_PERSISTED_OUTPUT_LENGTH
+                ? outputNotSaved(render.length)
+                : render,
+            ),
+          }
+        : message,
+    ),
+  };
+}
+
 export function createMessage(override: Partial<ChatMessage>): ChatMessage {
   return {
     id: nanoid(),
@@ -56,6 +200,14 @@ export interface ChatSession {
   lastSummarizeIndex: number;
   clearContextIndex?: number;
   isGenerating: boolean;
+  // Hypha artifact project holding the session's files, the default
+  // project when unset
+  projectId?: string;
+  // Agent answering in this session, the globally selected agent when unset
+  agent?: SessionAgent;
+  handoff?: AgentHandoff;
+  // Kernel and planning overrides for the session's agent
+  agentRuntime?: AgentRuntimeSettings;
 
   template: Template;
 }
@@ -66,6 +218,10 @@ export const BOT_HELLO: ChatMessage = createMessage({
   content: Locale.Store.BotHello,
 });
 
+export function getSessionAgent(session: ChatSession) {
+  return session.agent ?? useAppConfig.getState().modelConfig.selectedAgent;
+}
+
 function createEmptySession(): ChatSession {
   return {
     id: nanoid(),
@@ -80,6 +236,7 @@ function createEmptySession(): ChatSession {
     lastUpdate: Date.now(),
     lastSummarizeIndex: 0,
     isGenerating: false,
+    agent: useAppConfig.getState().modelConfig.selectedAgent,
 
     template: createEmptyTemplate(),
   };
@@ -282,6 +439,8 @@ export const useChatStore = createPersistStore(
 
       onUserInput(content: string, llm: LLMApi, attachImages?: ChatImage[]) {
         const modelConfig = useAppConfig.getState().modelConfig;
+        const isAgentClient =
+          useAppConfig.getState().modelClientType === ModelClient.HYPHA_AGENT;
 
         const userContent = fillTemplateWith(content, useAppConfig.getState());
         log.debug("[User Input] after template: ", userContent);
@@ -319,6 +478,9 @@ export const useChatStore = createPersistStore(
           role: "assistant",
           streaming: true,
           model: modelConfig.model,
+          agent: isAgentClient
+            ? getSessionAgent(get().currentSession())
+            : undefined,
         });
 
         // get recent messages
@@ -331,7 +493,7 @@ export const useChatStore = createPersistStore(
         get().updateCurrentSession((session) => {
           const savedUserMessage = {
             ...userMessage,
-            content: mContent,
+            content: redactSecretsDeep(mContent),
           };
           session.messages = session.messages.concat([
             savedUserMessage,
@@ -358,8 +520,76 @@ export const useChatStore = createPersistStore(
               session.messages = session.messages.concat();
             });
           },
+          onFunctionCall(name, args, callId, contentOffset) {
+            // Calls are reported again when the user edits their code
+            const existing = botMessage.toolCalls?.find(
+              (call) => callId && call.callId === callId,
+            );
+            if (existing) {
+              existing.arguments = args;
+              get().updateCurrentSession((session) => {
+                session.messages = session.messages.concat();
+              });
+              return;
+            }
+            botMessage.toolCalls = (botMessage.toolCalls ?? []).concat({
+              callId: callId ?? nanoid(),
+              name: name ?? "unknown_function",
+              arguments: args,
+              status: "running",
+              startTime: Date.now(),
+              contentOffset,
+            });
+            get().updateCurrentSession((session) => {
+              session.messages = session.messages.concat();
+            });
+          },
+          onExecutionOutput(text, stream, callId) {
+            const toolCalls = botMessage.toolCalls ?? [];
+            const toolCall =
+              toolCalls.find((call) => call.callId === callId) ??
+              [...toolCalls]
+                .reverse()
+                .find((call) => call.status === "running");
+            if (toolCall) {
+              toolCall.liveOutput = appendTerminalOutput(
+                toolCall.liveOutput,
+                text,
+                stream,
+              );
+            }
+            get().updateCurrentSession((session) => {
+              session.messages = session.messages.concat();
+            });
+          },
+          onFunctionOutput(content, callId, displays) {
+            const toolCalls = botMessage.toolCalls ?? [];
+            const toolCall =
+              toolCalls.find((call) => call.callId === callId) ??
+              [...toolCalls]
+                .reverse()
+                .find((call) => call.status === "running");
+            if (toolCall) {
+              toolCall.output = content;
+              toolCall.displays = displays?.length ? displays : undefined;
+              toolCall.endTime = Date.now();
+              toolCall.status = isToolCallError(content)
+                ? "error"
+                : "completed";
+            }
+            get().updateCurrentSession((session) => {
+              session.messages = session.messages.concat();
+            });
+          },
+          onRender(markdown) {
+            botMessage.renders = (botMessage.renders ?? []).concat(markdown);
+            get().updateCurrentSession((session) => {
+              session.messages = session.messages.concat();
+            });
+          },
           onFinish(message, stopReason, usage) {
             botMessage.streaming = false;
+            botMessage.toolCalls = settleToolCalls(botMessage.toolCalls);
             botMessage.usage = usage;
             botMessage.stopReason = stopReason;
             if (message) {
@@ -406,6 +636,7 @@ export const useChatStore = createPersistStore(
             const isAborted = errorMessage.includes("aborted");
             botMessage.content += "\n\n" + errorMessage;
             botMessage.streaming = false;
+            botMessage.toolCalls = settleToolCalls(botMessage.toolCalls);
             userMessage.isError = !isAborted;
             botMessage.isError = !isAborted;
             get().updateCurrentSession((session) => {
@@ -431,6 +662,26 @@ export const useChatStore = createPersistStore(
         } as ChatMessage;
       },
 
+      /**
+       * Switch the current session to another agent. The summary, if any, is
+       * sent as context to the new agent on the following turns.
+       */
+      handoffSession(agent: SessionAgent, summary?: string) {
+        get().updateCurrentSession((session) => {
+          const previous = getSessionAgent(session);
+          session.agent = agent;
+          session.handoff =
+            previous && previous.id !== agent.id
+              ? {
+                  from: previous,
+                  to: agent,
+                  summary,
+                  date: new Date().toLocaleString(),
+                }
+              : undefined;
+        });
+      },
+
       getMessagesWithMemory() {
         const session = get().currentSession();
         const config = useAppConfig.getState();
@@ -475,6 +726,20 @@ export const useChatStore = createPersistStore(
           : [];
         const longTermMemoryStartIndex = session.lastSummarizeIndex;
 
+        // handoff summary of the agent that answered before
+        const handoffPrompts = session.handoff?.summary
+          ? [
+              createMessage({
+                role: "system",
+                content: Locale.Store.Prompt.Handoff(
+                  session.handoff.from.name,
+                  session.handoff.summary,
+                ),
+                date: "",
+              }),
+            ]
+          : [];
+
         // short term memory
         const shortTermMemoryStartIndex = Math.max(
           0,
@@ -484,9 +749,10 @@ export const useChatStore = createPersistStore(
         // lets concat send messages, including 4 parts:
         // 0. system prompt: to get close to OpenAI Web ChatGPT
         // 1. long term memory: summarized memory messages
-        // 2. pre-defined in-context prompts
-        // 3. short term memory: latest n messages
-        // 4. newest input message
+        // 2. handoff summary of the previous agent
+        // 3. pre-defined in-context prompts
+        // 4. short term memory: latest n messages
+        // 5. newest input message
         const memoryStartIndex = shouldSendLongTermMemory
           ? Math.min(longTermMemoryStartIndex, shortTermMemoryStartIndex)
           : shortTermMemoryStartIndex;
@@ -510,6 +776,7 @@ export const useChatStore = createPersistStore(
         const recentMessages = [
           ...systemPrompts,
           ...longTermMemoryPrompts,
+          ...handoffPrompts,
           ...contextPrompts,
           ...reversedRecentMessages.reverse(),
         ];
@@ -529,6 +796,26 @@ export const useChatStore = createPersistStore(
         set(() => ({ sessions }));
       },
 
+      // Keyed by session, reruns finish after the user switched sessions
+      updateToolCall(
+        sessionId: string,
+        messageId: string,
+        callId: string,
+        updater: (toolCall: ToolCall) => void,
+      ) {
+        const sessions = get().sessions;
+        const session = sessions.find((s) => s.id === sessionId);
+        const message = session?.messages.find((m) => m.id === messageId);
+        const toolCall = message?.toolCalls?.find(
+          (call) => call.callId === callId,
+        );
+        if (session && toolCall) {
+          updater(toolCall);
+          session.messages = session.messages.concat();
+          set(() => ({ sessions: sessions.concat() }));
+        }
+      },
+
       resetSession() {
         get().updateCurrentSession((session) => {
           session.messages = [];
@@ -677,7 +964,8 @@ export const useChatStore = createPersistStore(
           if (
             lastMessage.role === "assistant" &&
             lastMessage.streaming &&
-            lastMessage.content.length === 0
+            lastMessage.content.length === 0 &&
+            !lastMessage.toolCalls?.length
           ) {
             // This message generation is interrupted by refresh and is stuck
             messages.splice(session.messages.length - 1, 1);
@@ -686,6 +974,10 @@ export const useChatStore = createPersistStore(
           session.messages = messages.map((m) => ({
             ...m,
             streaming: false,
+            stopReason: m.streaming ? "interrupted" : m.stopReason,
+            toolCalls: m.streaming
+              ? settleToolCalls(m.toolCalls)
+              : settleStaleReruns(m.toolCalls),
           }));
         });
         set(() => ({ sessions }));
@@ -698,6 +990,45 @@ export const useChatStore = createPersistStore(
         });
       },
 
+      // Keep the winning reply of an agent comparison in the current session
+      saveComparison(
+        content: string,
+        winner: AlternateReply,
+        alternates: AlternateReply[],
+      ) {
+        const userMessage = createMessage({ role: "user", content });
+        const botMessage = createMessage({
+          role: "assistant",
+          content: winner.content,
+          model: winner.agentName as Model,
+          agent: { id: winner.agentId, name: winner.agentName },
+          toolCalls: winner.toolCalls,
+          alternates,
+        });
+        get().updateCurrentSession((session) => {
+          session.messages = session.messages.concat([userMessage, botMessage]);
+          session.lastUpdate = Date.now();
+        });
+      },
+
+      // Point sessions using an agent, e.g. a draft, to another agent
+      replaceSessionAgent(agentId: string, agent: SessionAgent) {
+        const sessions = get().sessions.map((session) =>
+          session.agent?.id === agentId ? { ...session, agent } : session,
+        );
+        set(() => ({ sessions }));
+      },
+
+      // Move sessions bound to a deleted project back to the default project
+      unbindProject(projectId: string) {
+        const sessions = get().sessions.map((session) =>
+          session.projectId === projectId
+            ? { ...session, projectId: undefined }
+            : session,
+        );
+        set(() => ({ sessions }));
+      },
+
       updateCurrentSession(updater: (session: ChatSession) => void) {
         const sessions = get().sessions;
         const index = get().currentSessionIndex;
@@ -715,18 +1046,28 @@ export const useChatStore = createPersistStore(
   },
   {
     name: StoreKey.Chat,
-    version: 0.1,
+    version: 0.2,
+    partialize: (state) => ({
+      ...state,
+      sessions: state.sessions.map(toPersistedSession),
+    }),
     migrate(persistedState, version): any {
+      const store = persistedState as typeof DEFAULT_CHAT_STATE;
       if (version < 0.1) {
-        const store = persistedState as typeof DEFAULT_CHAT_STATE;
         store.sessions.forEach((s) => {
           s.messages.forEach((m) => {
             m.stopReason = "stop";
           });
         });
-        return store;
       }
-      return persistedState;
+      if (version < 0.2) {
+        // Sessions used to share the globally selected agent
+        const agent = useAppConfig.getState().modelConfig.selectedAgent;
+        store.sessions.forEach((s) => {
+          s.agent = s.agent ?? agent;
+        });
+      }
+      return store;
     },
   },
 );
@@ -35,6 +35,28 @@ export enum ModelClient {
   HYPHA_AGENT = "hypha-agent",
 }
 
+export enum AgentSessionMode {
+  Stateful = "stateful",
+  Stateless = "stateless",
+}
+
+// When code written by an agent needs the user's approval before it runs
+export enum CodeApprovalMode {
+  Off = "off",
+  Always = "always",
+  Risky = "risky",
+}
+
+export type KernelTokenPermission = "read" | "read_write";
+
+// Tokens issued to agent kernels instead of the user's own
+export interface KernelTokenConfig {
+  permission: KernelTokenPermission;
+  expiresIn: number; // seconds
+  // Workspace the token is limited to, the user's current one when empty
+  workspace?: string;
+}
+
 export type ModelConfig = {
   model: Model;
 
@@ -67,6 +89,7 @@ export type ConfigType = {
   sendPreviewBubble: boolean;
   enableAutoGenerateTitle: boolean;
   sidebarWidth: number;
+  showKernelInspector: boolean;
 
   disablePromptHint: boolean;
   hideBuiltinTemplates: boolean;
@@ -83,6 +106,9 @@ export type ConfigType = {
   cacheType: CacheType;
   logLevel: LogLevel;
   enableThinking: boolean;
+  agentSessionMode: AgentSessionMode;
+  codeApprovalMode: CodeApprovalMode;
+  kernelToken: KernelTokenConfig;
   modelConfig: ModelConfig;
 };
 
@@ -119,6 +145,7 @@ export const DEFAULT_CONFIG: ConfigType = {
   sendPreviewBubble: true,
   enableAutoGenerateTitle: true,
   sidebarWidth: DEFAULT_SIDEBAR_WIDTH,
+  showKernelInspector: false,
 
   disablePromptHint: false,
   hideBuiltinTemplates: false, // dont add builtin masks
@@ -134,6 +161,12 @@ export const DEFAULT_CONFIG: ConfigType = {
   cacheType: CacheType.Cache,
   logLevel: "INFO",
   enableThinking: false,
+  agentSessionMode: AgentSessionMode.Stateful,
+  codeApprovalMode: CodeApprovalMode.Risky,
+  kernelToken: {
+    permission: "read",
+    expiresIn: 4 * 60 * 60,
+  },
 
   modelConfig: DEFAULT_MODEL_CONFIG,
 };
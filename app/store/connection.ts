@@ -0,0 +1,107 @@
+import { nanoid } from "nanoid";
+import { StoreKey } from "../constant";
+import { createPersistStore } from "../utils/store";
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  serverUrl: string;
+  // Workspace hosting the agent catalog
+  workspace: string;
+  // Alias of the agent collection within the workspace
+  agentCollection: string;
+  // Full id of the deno-app-engine service running the agents
+  engineServiceId: string;
+}
+
+export const DEFAULT_CONNECTION_PROFILE: ConnectionProfile = {
+  id: "default",
+  name: "hypha.aicell.io",
+  serverUrl: "https://hypha.aicell.io",
+  workspace: "hypha-agents",
+  agentCollection: "agents",
+  engineServiceId: "hypha-agents/deno-app-engine",
+};
+
+export const DEFAULT_CONNECTION_STATE = {
+  profiles: [DEFAULT_CONNECTION_PROFILE] as ConnectionProfile[],
+  activeProfileId: DEFAULT_CONNECTION_PROFILE.id,
+};
+
+export const useConnectionStore = createPersistStore(
+  { ...DEFAULT_CONNECTION_STATE },
+
+  (set, get) => ({
+    activeProfile(): ConnectionProfile {
+      const { profiles, activeProfileId } = get();
+      const profile =
+        profiles.find((p) => p.id === activeProfileId) ??
+        profiles[0] ??
+        DEFAULT_CONNECTION_PROFILE;
+      return {
+        ...profile,
+        serverUrl: profile.serverUrl.trim().replace(/\/+$/, ""),
+      };
+    },
+
+    addProfile(profile?: Partial<ConnectionProfile>) {
+      const newProfile: ConnectionProfile = {
+        ...DEFAULT_CONNECTION_PROFILE,
+        ...profile,
+        id: nanoid(),
+      };
+      set((state) => ({ profiles: state.profiles.concat(newProfile) }));
+      return newProfile;
+    },
+
+    updateProfile(id: string, updater: (profile: ConnectionProfile) => void) {
+      const profiles = get().profiles.map((profile) => {
+        if (profile.id !== id) return profile;
+        const updated = { ...profile };
+        updater(updated);
+        return updated;
+      });
+      set(() => ({ profiles }));
+    },
+
+    removeProfile(id: string) {
+      // Keep the built-in profile so there is always one to fall back to
+      if (id === DEFAULT_CONNECTION_PROFILE.id) return;
+      set((state) => ({
+        profiles: state.profiles.filter((p) => p.id !== id),
+        activeProfileId:
+          state.activeProfileId === id
+            ? DEFAULT_CONNECTION_PROFILE.id
+            : state.activeProfileId,
+      }));
+    },
+
+    selectProfile(id: string) {
+      set(() => ({ activeProfileId: id }));
+    },
+  }),
+  {
+    name: StoreKey.Connection,
+  },
+);
+
+// Active profile for code outside of React components
+export function getActiveProfile() {
+  return useConnectionStore.getState().activeProfile();
+}
+
+// Resolve a relative file of an artifact in the active profile's workspace,
+// e.g. "./cover.png" of "hypha-agents/my-agent"
+export function resolveArtifactFileUrl(url: string, artifactId: string) {
+  if (url.startsWith("http://") || url.startsWith("https://")) {
+    return url;
+  }
+
+  const { serverUrl, workspace } = getActiveProfile();
+  const [artifactWorkspace, alias] = artifactId.includes("/")
+    ? artifactId.split("/", 2)
+    : [workspace, artifactId];
+  const path = url.startsWith("./") ? url.slice(2) : url;
+
+  return `${serverUrl}/${artifactWorkspace}/artifacts/${alias}/${path}`;
+}
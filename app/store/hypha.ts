@@ -3,6 +3,14 @@ import { combine } from "zustand/middleware";
 import { Updater } from "../typing";
 import { deepClone } from "../utils/clone";
 import { hyphaWebsocketClient } from "hypha-rpc";
+import {
+  CompletedPart,
+  UploadPart,
+  getPartCount,
+  putWithProgress,
+  uploadParts,
+} from "../utils/upload";
+import { getActiveProfile } from "./connection";
 
 type MakeUpdater<T> = {
   lastUpdateTime: number;
@@ -87,18 +95,56 @@ export interface Resource {
     documentation?: string;
     startup_script?: string;
     welcomeMessage?: string;
+    instructions?: string;
+    capabilities?: string[];
   };
+  created_by?: string;
 }
 
+export type AgentManifest = Resource["manifest"];
+
+// connected: heartbeats answer quickly
+// degraded: heartbeats are slow or one was missed
+// reconnecting: the connection dropped and is being re-established
+// offline: the browser is offline or reconnecting gave up
+export type ConnectionState =
+  | "connected"
+  | "degraded"
+  | "reconnecting"
+  | "offline";
+
 export interface HyphaState {
   user: User | null;
   isConnecting: boolean;
   isConnected: boolean;
+  connectionState: ConnectionState;
+  reconnectAttempt: number;
+  // Increased on every new server connection, clients holding services of
+  // the previous connection have to resolve them again
+  connectionEpoch: number;
   resources: Resource[];
   resourceType: string | null;
   totalItems: number;
   itemsPerPage: number;
   defaultProject: string | null;
+  projects: ProjectInfo[];
+  // Unpublished agents being tested in scratch sessions
+  draftAgents: Resource[];
+}
+
+export interface ProjectUploadTarget {
+  artifactId: string;
+  url?: string; // Presigned URL of a single-request upload
+  uploadId?: string; // Multipart upload id with one presigned URL per part
+  parts?: UploadPart[];
+}
+
+export interface ProjectInfo {
+  id: string;
+  name: string;
+  description: string;
+  createdAt?: number;
+  isDefault: boolean;
 }
 
 interface ConnectConfig {
@@ -116,17 +162,18 @@ const DEFAULT_HYPHA_STATE: HyphaState = {
   user: null,
   isConnecting: false,
   isConnected: false,
+  connectionState: "offline",
+  reconnectAttempt: 0,
+  connectionEpoch: 0,
   resources: [],
   resourceType: "agent",
   totalItems: 0,
   itemsPerPage: 12,
   defaultProject: null,
+  projects: [],
+  draftAgents: [],
 };
 
-// Constants for API endpoints
-const SITE_ID = "hypha-agents";
-const SERVER_URL = "https://hypha.aicell.io";
-
 // Simple token handling with automatic expiration cleanup
 const getSavedToken = () => {
   if (typeof window === "undefined") return null;
@@ -174,6 +221,50 @@ const isAuthenticationError = (error: any): boolean => {
 let currentServer: any = null;
 let connectionPromise: Promise<any> | null = null;
 
+// Connection supervisor
+const HEARTBEAT_INTERVAL_MS = 15000;
+const HEARTBEAT_TIMEOUT_MS = 10000;
+const DEGRADED_LATENCY_MS = 3000;
+const MAX_MISSED_HEARTBEATS = 2;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const MAX_RECONNECT_ATTEMPTS = 8;
+
+// Run before logging out while the connection is still open, e.g. to
+// destroy the user's agents
+const disconnectHandlers = new Set<() => Promise<void>>();
+const DISCONNECT_HANDLER_TIMEOUT_MS = 10000;
+
+let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+let reconnectPromise: Promise<any> | null = null;
+let missedHeartbeats = 0;
+let supervisorListening = false;
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`Timed out after ${ms}ms`)),
+      ms,
+    );
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Exponential backoff with jitter, capped at RECONNECT_MAX_DELAY_MS
+const getReconnectDelay = (attempt: number) =>
+  Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS) *
+  (0.8 + Math.random() * 0.4);
+
 export const useHyphaStore = createStore(
   { ...DEFAULT_HYPHA_STATE },
   (set, get) => ({
@@ -229,20 +320,14 @@ export const useHyphaStore = createStore(
       }
       console.log("[HyphaStore] Token found:", token.substring(0, 20) + "...");
 
-      // If we have a current server, test it
+      // The supervisor keeps the current server alive, wait for it while
+      // it reconnects
+      if (reconnectPromise) {
+        console.log("[HyphaStore] Waiting for reconnection...");
+        return await reconnectPromise;
+      }
       if (currentServer) {
-        try {
-          console.log("[HyphaStore] Testing existing server connection...");
-          await currentServer.listServices();
-          console.log("[HyphaStore] Existing server connection is valid");
-          return currentServer;
-        } catch (error) {
-          console.log(
-            "[HyphaStore] Existing server disconnected, creating new connection...",
-            error,
-          );
-          currentServer = null;
-        }
+        return currentServer;
       }
 
       // Create new connection with promise to prevent concurrent attempts
@@ -250,7 +335,7 @@ export const useHyphaStore = createStore(
       connectionPromise = (async () => {
         try {
           const server = await hyphaWebsocketClient.connectToServer({
-            server_url: SERVER_URL,
+            server_url: getActiveProfile().serverUrl,
             token: token,
             method_timeout: 180000,
           });
@@ -259,6 +344,14 @@ export const useHyphaStore = createStore(
           console.log(
             "[HyphaStore] New server connection created successfully",
           );
+          set((state) => ({
+            ...state,
+            isConnected: true,
+            connectionState: "connected",
+            reconnectAttempt: 0,
+            connectionEpoch: state.connectionEpoch + 1,
+          }));
+          (get() as any).startSupervisor();
           return server;
         } catch (error) {
           console.error(
@@ -289,6 +382,7 @@ export const useHyphaStore = createStore(
       }
 
       // Clear current server and connection promise
+      (get() as any).stopSupervisor();
       currentServer = null;
       connectionPromise = null;
 
@@ -311,7 +405,8 @@ export const useHyphaStore = createStore(
         const offset = (page - 1) * state.itemsPerPage;
 
         // Construct the base URL
-        let url = `${SERVER_URL}/${SITE_ID}/artifacts/agents/children?pagination=true&offset=${offset}&limit=${state.itemsPerPage}`;
+        const { serverUrl, workspace, agentCollection } = getActiveProfile();
+        let url = `${serverUrl}/${workspace}/artifacts/${agentCollection}/children?pagination=true&offset=${offset}&limit=${state.itemsPerPage}`;
 
         // Add type filter if resourceType is specified
         if (state.resourceType) {
@@ -346,6 +441,91 @@ export const useHyphaStore = createStore(
       }
     },
 
+    // Register an unpublished agent so chat sessions can run it
+    saveDraftAgent(
+      manifest: AgentManifest,
+      draftId?: string,
+      publishedId?: string,
+    ): Resource {
+      const id = draftId ?? `draft-${Date.now()}`;
+      const draft: Resource = {
+        id,
+        name: manifest.name,
+        description: manifest.description,
+        tags: manifest.tags ?? [],
+        config: { publishedId },
+        type: "agent",
+        created_at: Date.now(),
+        last_modified: Date.now(),
+        manifest: { ...manifest, type: "agent" },
+      };
+      set((state: HyphaState) => ({
+        ...state,
+        draftAgents: [
+          ...state.draftAgents.filter((agent) => agent.id !== id),
+          draft,
+        ],
+      }));
+      return draft;
+    },
+
+    // Publish an agent to the agents collection, as a new version when an
+    // existing artifact id is given
+    async publishAgent(
+      manifest: AgentManifest,
+      artifactId?: string,
+      comment?: string,
+    ): Promise<Resource> {
+      const store = get() as any; // Get store reference
+
+      try {
+        const server = await store.getServer();
+        const artifactManager = await server.getService(
+          "public/artifact-manager",
+        );
+        const agentManifest = { ...manifest, type: "agent" };
+
+        let artifact: Resource;
+        if (artifactId) {
+          await artifactManager.edit({
+            artifact_id: artifactId,
+            manifest: agentManifest,
+            stage: true,
+            version: "new",
+            _rkwargs: true,
+          });
+          artifact = await artifactManager.commit({
+            artifact_id: artifactId,
+            comment,
+            _rkwargs: true,
+          });
+        } else {
+          const { workspace, agentCollection } = getActiveProfile();
+          artifact = await artifactManager.create({
+            parent_id: `${workspace}/${agentCollection}`,
+            type: "agent",
+            manifest: agentManifest,
+            _rkwargs: true,
+          });
+        }
+
+        console.log("[HyphaStore] Published agent:", artifact.id);
+        set((state: HyphaState) => ({
+          ...state,
+          resources: [
+            artifact,
+            ...state.resources.filter((r) => r.id !== artifact.id),
+          ],
+        }));
+        return artifact;
+      } catch (error) {
+        console.error("[HyphaStore] Error publishing agent:", error);
+        throw new Error(
+          `Failed to publish agent: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    },
+
     async connect(config: ConnectConfig) {
       const state = get();
 
@@ -399,7 +579,11 @@ export const useHyphaStore = createStore(
           user: user || null,
           isConnected: true,
           isConnecting: false,
+          connectionState: "connected",
+          reconnectAttempt: 0,
+          connectionEpoch: state.connectionEpoch + 1,
         }));
+        (get() as any).startSupervisor();
 
         console.log("[HyphaStore] Connected to Hypha server:", {
           user: user?.email || "No user",
@@ -428,7 +612,172 @@ export const useHyphaStore = createStore(
       }
     },
 
-    async disconnect() {
+    // Start the heartbeat of the current connection
+    startSupervisor() {
+      if (typeof window === "undefined") return;
+      missedHeartbeats = 0;
+      if (!heartbeatTimer) {
+        heartbeatTimer = setInterval(
+          () => (get() as any).heartbeat(),
+          HEARTBEAT_INTERVAL_MS,
+        );
+      }
+      if (!supervisorListening) {
+        supervisorListening = true;
+        window.addEventListener("offline", () => {
+          if (!currentServer && !reconnectPromise) return;
+          console.warn("[HyphaStore] Browser went offline");
+          set({ connectionState: "offline" });
+        });
+        window.addEventListener("online", () => {
+          if (get().user && get().connectionState === "offline") {
+            console.log("[HyphaStore] Browser back online, reconnecting...");
+            (get() as any)
+              .reconnect()
+              .catch((error: any) =>
+                console.error("[HyphaStore] Reconnect failed:", error),
+              );
+          }
+        });
+      }
+    },
+
+    stopSupervisor() {
+      if (heartbeatTimer) {
+        clearInterval(heartbeatTimer);
+        heartbeatTimer = null;
+      }
+      missedHeartbeats = 0;
+    },
+
+    async heartbeat() {
+      if (!currentServer || reconnectPromise) return;
+      if (typeof navigator !== "undefined" && !navigator.onLine) {
+        set({ connectionState: "offline" });
+        return;
+      }
+
+      const server = currentServer;
+      const start = Date.now();
+      try {
+        await withTimeout(
+          typeof server.echo === "function"
+            ? server.echo("ping")
+            : server.listServices(),
+          HEARTBEAT_TIMEOUT_MS,
+        );
+        if (server !== currentServer) return;
+        missedHeartbeats = 0;
+        const latency = Date.now() - start;
+        set({
+          connectionState:
+            latency > DEGRADED_LATENCY_MS ? "degraded" : "connected",
+        });
+      } catch (error) {
+        if (server !== currentServer) return;
+        missedHeartbeats += 1;
+        console.warn(
+          `[HyphaStore] Heartbeat failed (${missedHeartbeats}/${MAX_MISSED_HEARTBEATS}):`,
+          error,
+        );
+        if (missedHeartbeats >= MAX_MISSED_HEARTBEATS) {
+          (get() as any)
+            .reconnect()
+            .catch((error: any) =>
+              console.error("[HyphaStore] Reconnect failed:", error),
+            );
+        } else {
+          set({ connectionState: "degraded" });
+        }
+      }
+    },
+
+    // Replace the current connection, retrying with exponential backoff
+    async reconnect(): Promise<any> {
+      if (reconnectPromise) return reconnectPromise;
+
+      const previousServer = currentServer;
+      currentServer = null;
+      set({ connectionState: "reconnecting", reconnectAttempt: 0 });
+      try {
+        previousServer?.disconnect?.();
+      } catch (error) {
+        // The old connection is most likely gone already
+      }
+
+      reconnectPromise = (async () => {
+        for (let attempt = 0; attempt < MAX_RECONNECT_ATTEMPTS; attempt++) {
+          if (attempt > 0) {
+            await sleep(getReconnectDelay(attempt - 1));
+          }
+          set({ connectionState: "reconnecting", reconnectAttempt: attempt });
+
+          const token = getSavedToken();
+          if (!token) {
+            (get() as any).handleAuthenticationFailure();
+            throw new Error("Session expired. Please log in again.");
+          }
+
+          try {
+            console.log(
+              `[HyphaStore] Reconnecting (attempt ${attempt + 1}/${MAX_RECONNECT_ATTEMPTS})...`,
+            );
+            const server = await hyphaWebsocketClient.connectToServer({
+              server_url: getActiveProfile().serverUrl,
+              token,
+              method_timeout: 180000,
+            });
+            currentServer = server;
+            missedHeartbeats = 0;
+            set((state) => ({
+              ...state,
+              isConnected: true,
+              connectionState: "connected",
+              reconnectAttempt: 0,
+              connectionEpoch: state.connectionEpoch + 1,
+            }));
+            console.log("[HyphaStore] Reconnected to Hypha server");
+            return server;
+          } catch (error) {
+            console.warn("[HyphaStore] Reconnect attempt failed:", error);
+            if (isAuthenticationError(error)) {
+              (get() as any).handleAuthenticationFailure();
+              throw error;
+            }
+          }
+        }
+
+        set({ connectionState: "offline", isConnected: false });
+        throw new Error("Unable to reach the Hypha server.");
+      })();
+
+      try {
+        return await reconnectPromise;
+      } finally {
+        reconnectPromise = null;
+      }
+    },
+
+    onBeforeDisconnect(handler: () => Promise<void>) {
+      disconnectHandlers.add(handler);
+      return () => {
+        disconnectHandlers.delete(handler);
+      };
+    },
+
+    // Switching profiles keeps the user's agents, so it skips the handlers
+    async disconnect(options: { runHandlers?: boolean } = {}) {
+      if (currentServer && options.runHandlers !== false) {
+        await Promise.all(
+          Array.from(disconnectHandlers).map((handler) =>
+            withTimeout(handler(), DISCONNECT_HANDLER_TIMEOUT_MS).catch(
+              (error) =>
+                console.warn("[HyphaStore] Disconnect handler failed:", error),
+            ),
+          ),
+        );
+      }
+      (get() as any).stopSupervisor();
       if (currentServer) {
         try {
           await currentServer.disconnect();
@@ -607,64 +956,245 @@ export const useHyphaStore = createStore(
       }
     },
 
-    // Upload file to default project
-    async uploadFileToProject(
-      file: File,
-      onProgress?: (progress: number) => void,
-    ): Promise<void> {
+    // Resolve the project to operate on, falling back to the default project
+    async resolveProjectId(projectId?: string): Promise<string> {
+      if (projectId) return projectId;
+      const store = get() as any; // Get store reference
+      return get().defaultProject ?? (await store.initializeDefaultProject());
+    },
+
+    // List the projects the current user created in the projects collection
+    async listProjects(): Promise<ProjectInfo[]> {
       const state = get();
       const store = get() as any; // Get store reference
 
-      if (!state.defaultProject) {
-        await store.initializeDefaultProject();
+      if (!state.user) {
+        return [];
       }
 
       try {
-        console.log(
-          "[HyphaStore] Uploading file to default project:",
-          file.name,
+        await store.initializeDefaultProject();
+        const server = await store.getServer();
+        const artifactManager = await server.getService(
+          "public/artifact-manager",
         );
 
+        const artifacts = await artifactManager.list({
+          parent_id: "agent-lab-projects",
+          limit: 1000,
+          _rkwargs: true,
+        });
+
+        const projects: ProjectInfo[] = (artifacts || [])
+          .filter(
+            (artifact: any) =>
+              artifact.id === get().defaultProject ||
+              artifact.created_by === state.user!.id,
+          )
+          .map((artifact: any) => ({
+            id: artifact.id,
+            name: artifact.manifest?.name || artifact.alias || artifact.id,
+            description: artifact.manifest?.description || "",
+            createdAt: artifact.created_at,
+            isDefault: artifact.id === get().defaultProject,
+          }));
+
+        set((state: HyphaState) => ({ ...state, projects }));
+        return projects;
+      } catch (error) {
+        console.error("[HyphaStore] Error listing projects:", error);
+        return get().projects;
+      }
+    },
+
+    // Create a new named project in the projects collection
+    async createProject(
+      name: string,
+      description: string = "",
+    ): Promise<ProjectInfo> {
+      const store = get() as any; // Get store reference
+
+      try {
+        await store.initializeDefaultProject();
         const server = await store.getServer();
         const artifactManager = await server.getService(
           "public/artifact-manager",
         );
 
-        // First, put the artifact into staging mode
-        console.log("[HyphaStore] Enabling staging mode for artifact...");
-        await artifactManager.edit({
-          artifact_id: state.defaultProject!,
-          stage: true,
+        const project = await artifactManager.create({
+          parent_id: "agent-lab-projects",
+          type: "project",
+          manifest: {
+            name,
+            description,
+            version: "0.1.0",
+            type: "project",
+            created_at: new Date().toISOString(),
+          },
+          config: {
+            permissions: { "*": "r", "@": "r+" },
+          },
           _rkwargs: true,
         });
 
-        // Report initial progress
-        if (onProgress) onProgress(25);
+        console.log("[HyphaStore] Created project:", project.id);
+        const info: ProjectInfo = {
+          id: project.id,
+          name,
+          description,
+          createdAt: project.created_at,
+          isDefault: false,
+        };
+        set((state: HyphaState) => ({
+          ...state,
+          projects: [...state.projects, info],
+        }));
+        return info;
+      } catch (error) {
+        console.error("[HyphaStore] Error creating project:", error);
+        throw new Error(
+          `Failed to create project: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    },
+
+    // Delete a project together with its files
+    async deleteProject(projectId: string): Promise<void> {
+      const store = get() as any; // Get store reference
+
+      if (projectId === get().defaultProject) {
+        throw new Error("The default project cannot be deleted");
+      }
+
+      try {
+        const server = await store.getServer();
+        const artifactManager = await server.getService(
+          "public/artifact-manager",
+        );
 
-        // Get presigned URL for upload
-        const putUrl = await artifactManager.put_file({
-          artifact_id: state.defaultProject!,
-          file_path: file.name,
+        await artifactManager.delete({
+          artifact_id: projectId,
+          delete_files: true,
           _rkwargs: true,
         });
 
-        if (onProgress) onProgress(50);
+        console.log("[HyphaStore] Deleted project:", projectId);
+        set((state: HyphaState) => ({
+          ...state,
+          projects: state.projects.filter((p) => p.id !== projectId),
+        }));
+      } catch (error) {
+        console.error("[HyphaStore] Error deleting project:", error);
+        throw new Error(
+          `Failed to delete project: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    },
 
-        // Upload file using presigned URL
-        const response = await fetch(putUrl, {
-          method: "PUT",
-          body: file,
-          headers: {
-            "Content-Type": "",
-          },
+    // Stage a project for an upload and get presigned URLs: a single URL
+    // for small files, one URL per part for a multipart upload
+    async prepareProjectUpload(
+      filePath: string,
+      size: number,
+      projectId?: string,
+    ): Promise<ProjectUploadTarget> {
+      const store = get() as any; // Get store reference
+
+      const artifactId = await store.resolveProjectId(projectId);
+      const server = await store.getServer();
+      const artifactManager = await server.getService(
+        "public/artifact-manager",
+      );
+
+      // First, put the artifact into staging mode
+      console.log("[HyphaStore] Enabling staging mode for artifact...");
+      await artifactManager.edit({
+        artifact_id: artifactId,
+        stage: true,
+        _rkwargs: true,
+      });
+
+      const partCount = getPartCount(size);
+      if (partCount === 1) {
+        const url = await artifactManager.put_file({
+          artifact_id: artifactId,
+          file_path: filePath,
+          _rkwargs: true,
         });
+        return { artifactId, url };
+      }
+
+      const multipart = await artifactManager.put_file_start_multipart({
+        artifact_id: artifactId,
+        file_path: filePath,
+        part_count: partCount,
+        expires_in: 24 * 3600,
+        _rkwargs: true,
+      });
+      return {
+        artifactId,
+        uploadId: multipart.upload_id,
+        parts: multipart.parts,
+      };
+    },
+
+    // Assemble the uploaded parts of a multipart upload into the file
+    async completeProjectUpload(
+      artifactId: string,
+      uploadId: string,
+      parts: CompletedPart[],
+    ): Promise<void> {
+      const store = get() as any; // Get store reference
+
+      const server = await store.getServer();
+      const artifactManager = await server.getService(
+        "public/artifact-manager",
+      );
+      await artifactManager.put_file_complete_multipart({
+        artifact_id: artifactId,
+        upload_id: uploadId,
+        parts,
+        _rkwargs: true,
+      });
+    },
+
+    // Upload file to a project, the default project unless one is given.
+    // Progress is reported in percent of the bytes sent.
+    async uploadFileToProject(
+      file: File,
+      onProgress?: (progress: number) => void,
+      filePath: string = file.name,
+      projectId?: string,
+    ): Promise<void> {
+      const store = get() as any; // Get store reference
+      const reportBytes = (loaded: number) =>
+        onProgress?.(Math.round((loaded / Math.max(file.size, 1)) * 100));
+
+      try {
+        console.log("[HyphaStore] Uploading file to project:", filePath);
+        const target: ProjectUploadTarget = await store.prepareProjectUpload(
+          filePath,
+          file.size,
+          projectId,
+        );
 
-        if (!response.ok) {
-          throw new Error(`Upload failed with status: ${response.status}`);
+        if (target.url) {
+          await putWithProgress(target.url, file, reportBytes);
+        } else {
+          const parts = await uploadParts({
+            file,
+            parts: target.parts!,
+            completed: [],
+            onProgress: reportBytes,
+          });
+          await store.completeProjectUpload(
+            target.artifactId,
+            target.uploadId!,
+            parts,
+          );
         }
 
-        if (onProgress) onProgress(100);
-        console.log("[HyphaStore] File uploaded successfully:", file.name);
+        console.log("[HyphaStore] File uploaded successfully:", filePath);
       } catch (error) {
         console.error("[HyphaStore] Error uploading file:", error);
         throw new Error(
@@ -673,12 +1203,16 @@ export const useHyphaStore = createStore(
       }
     },
 
-    // List files in default project
-    async listProjectFiles(): Promise<any[]> {
+    // List files in a project
+    async listProjectFiles(
+      dirPath?: string,
+      projectId?: string,
+    ): Promise<any[]> {
       const state = get();
       const store = get() as any; // Get store reference
 
-      if (!state.defaultProject) {
+      const artifactId = projectId ?? state.defaultProject;
+      if (!artifactId) {
         return [];
       }
 
@@ -689,7 +1223,8 @@ export const useHyphaStore = createStore(
         );
 
         const fileList = await artifactManager.list_files({
-          artifact_id: state.defaultProject,
+          artifact_id: artifactId,
+          dir_path: dirPath || undefined,
           version: "stage",
           _rkwargs: true,
         });
@@ -697,7 +1232,139 @@ export const useHyphaStore = createStore(
         return fileList || [];
       } catch (error) {
         console.error("[HyphaStore] Error listing project files:", error);
-        return [];
+        throw new Error(
+          `Failed to list project files: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    },
+
+    // Latest committed version of a project, and whether the staged version
+    // the chat works on has changes on top of it
+    async getProjectVersion(
+      projectId?: string,
+    ): Promise<{ version: string | null; staged: boolean }> {
+      const store = get() as any; // Get store reference
+
+      const artifactId = await store.resolveProjectId(projectId);
+      const server = await store.getServer();
+      const artifactManager = await server.getService(
+        "public/artifact-manager",
+      );
+
+      const artifact = await artifactManager.read({
+        artifact_id: artifactId,
+        _rkwargs: true,
+      });
+      const versions: { version: string }[] = artifact.versions ?? [];
+      return {
+        version: versions.length ? versions[versions.length - 1].version : null,
+        staged: artifact.staging != null,
+      };
+    },
+
+    // Get a download URL for a file in a project
+    async getProjectFileUrl(
+      filePath: string,
+      projectId?: string,
+    ): Promise<string> {
+      const store = get() as any; // Get store reference
+
+      const artifactId = await store.resolveProjectId(projectId);
+      const server = await store.getServer();
+      const artifactManager = await server.getService(
+        "public/artifact-manager",
+      );
+
+      return artifactManager.get_file({
+        artifact_id: artifactId,
+        file_path: filePath,
+        version: "stage",
+        _rkwargs: true,
+      });
+    },
+
+    // Remove a file from the staged version of a project
+    async removeProjectFile(
+      filePath: string,
+      projectId?: string,
+    ): Promise<void> {
+      const store = get() as any; // Get store reference
+
+      try {
+        const artifactId = await store.resolveProjectId(projectId);
+        const server = await store.getServer();
+        const artifactManager = await server.getService(
+          "public/artifact-manager",
+        );
+
+        await artifactManager.edit({
+          artifact_id: artifactId,
+          stage: true,
+          _rkwargs: true,
+        });
+        await artifactManager.remove_file({
+          artifact_id: artifactId,
+          file_path: filePath,
+          _rkwargs: true,
+        });
+        console.log("[HyphaStore] File removed:", filePath);
+      } catch (error) {
+        console.error("[HyphaStore] Error removing file:", error);
+        throw new Error(
+          `Failed to remove file: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    },
+
+    // Rename a file by copying it to the new path and removing the old one,
+    // the artifact manager has no native move operation
+    async renameProjectFile(
+      filePath: string,
+      newPath: string,
+      projectId?: string,
+    ): Promise<void> {
+      const store = get() as any; // Get store reference
+
+      const url = await store.getProjectFileUrl(filePath, projectId);
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Download failed with status: ${response.status}`);
+      }
+      const blob = await response.blob();
+      const fileName = newPath.split("/").pop() || newPath;
+
+      await store.uploadFileToProject(
+        new File([blob], fileName, { type: blob.type }),
+        undefined,
+        newPath,
+        projectId,
+      );
+      await store.removeProjectFile(filePath, projectId);
+      console.log("[HyphaStore] File renamed:", filePath, "->", newPath);
+    },
+
+    // Commit the staged files of a project as a new version
+    async commitProject(comment?: string, projectId?: string): Promise<void> {
+      const store = get() as any; // Get store reference
+
+      try {
+        const artifactId = await store.resolveProjectId(projectId);
+        const server = await store.getServer();
+        const artifactManager = await server.getService(
+          "public/artifact-manager",
+        );
+
+        await artifactManager.commit({
+          artifact_id: artifactId,
+          comment,
+          _rkwargs: true,
+        });
+        console.log("[HyphaStore] Committed project:", artifactId);
+      } catch (error) {
+        console.error("[HyphaStore] Error committing project:", error);
+        throw new Error(
+          `Failed to commit project: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
       }
     },
   }),
@@ -0,0 +1,67 @@
+import { StoreKey } from "../constant";
+import { createPersistStore } from "../utils/store";
+import { KernelTokenPermission } from "./config";
+
+export interface KernelToken {
+  agentId: string;
+  // Chat session owning the agent, null for agents created elsewhere
+  sessionId: string | null;
+  // Kept in memory only, tokens of a previous page load can't be revoked
+  // and are left to expire
+  token?: string;
+  workspace: string;
+  permission: KernelTokenPermission;
+  projectId?: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export const DEFAULT_KERNEL_TOKEN_STATE = {
+  tokens: [] as KernelToken[],
+};
+
+export const useKernelTokenStore = createPersistStore(
+  { ...DEFAULT_KERNEL_TOKEN_STATE },
+
+  (set, get) => ({
+    // Tokens that have not expired yet
+    liveTokens(): KernelToken[] {
+      const now = Date.now();
+      return get().tokens.filter((token) => token.expiresAt > now);
+    },
+
+    getToken(agentId: string): KernelToken | undefined {
+      return get().tokens.find((token) => token.agentId === agentId);
+    },
+
+    addToken(token: KernelToken) {
+      const now = Date.now();
+      set((state) => ({
+        tokens: state.tokens
+          .filter((t) => t.agentId !== token.agentId && t.expiresAt > now)
+          .concat(token),
+      }));
+    },
+
+    removeToken(agentId: string) {
+      set((state) => ({
+        tokens: state.tokens.filter((token) => token.agentId !== agentId),
+      }));
+    },
+
+    updateProject(agentId: string, projectId?: string) {
+      set((state) => ({
+        tokens: state.tokens.map((token) =>
+          token.agentId === agentId ? { ...token, projectId } : token,
+        ),
+      }));
+    },
+  }),
+  {
+    name: StoreKey.KernelTokens,
+    partialize: (state) => ({
+      ...state,
+      tokens: state.tokens.map(({ token, ...rest }) => rest),
+    }),
+  },
+);
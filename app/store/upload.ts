@@ -0,0 +1,198 @@
+import { create } from "zustand";
+import { nanoid } from "nanoid";
+import { ProjectUploadTarget, useHyphaStore } from "./hypha";
+import {
+  CompletedPart,
+  UploadAbortedError,
+  putWithProgress,
+  uploadParts,
+} from "../utils/upload";
+
+export type UploadStatus =
+  | "queued"
+  | "uploading"
+  | "paused"
+  | "completed"
+  | "error"
+  | "cancelled";
+
+export interface UploadTask {
+  id: string;
+  fileName: string;
+  filePath: string;
+  projectId?: string;
+  size: number;
+  uploaded: number;
+  status: UploadStatus;
+  error?: string;
+  // Multipart state kept so a paused or failed upload resumes where it stopped
+  target?: ProjectUploadTarget;
+  completedParts: CompletedPart[];
+}
+
+interface UploadState {
+  tasks: UploadTask[];
+  addFiles(
+    items: { file: File; path: string }[],
+    projectId?: string,
+  ): UploadTask[];
+  pause(id: string): void;
+  resume(id: string): void;
+  cancel(id: string): void;
+  clearFinished(): void;
+}
+
+const MAX_CONCURRENT_UPLOADS = 2;
+
+// Files and in-flight requests are not part of the store state
+const files = new Map<string, File>();
+const controllers = new Map<string, AbortController>();
+
+export const isUploadActive = (task: UploadTask) =>
+  task.status === "queued" || task.status === "uploading";
+
+export const useUploadStore = create<UploadState>()((set, get) => {
+  const updateTask = (id: string, updater: Partial<UploadTask>) =>
+    set((state) => ({
+      tasks: state.tasks.map((task) =>
+        task.id === id ? { ...task, ...updater } : task,
+      ),
+    }));
+
+  const getTask = (id: string) => get().tasks.find((task) => task.id === id);
+
+  const run = async (id: string) => {
+    const task = getTask(id);
+    const file = files.get(id);
+    if (!task || !file) return;
+
+    const controller = new AbortController();
+    controllers.set(id, controller);
+    updateTask(id, { status: "uploading", error: undefined });
+
+    try {
+      const hyphaStore = useHyphaStore.getState();
+      // Single-request uploads restart from scratch, multipart ones keep
+      // their presigned part URLs and completed parts
+      let target = task.target?.uploadId ? task.target : undefined;
+      if (!target) {
+        target = await hyphaStore.prepareProjectUpload(
+          task.filePath,
+          task.size,
+          task.projectId,
+        );
+        updateTask(id, { target, completedParts: [] });
+      }
+
+      if (target.url) {
+        await putWithProgress(
+          target.url,
+          file,
+          (uploaded) => updateTask(id, { uploaded }),
+          controller.signal,
+        );
+      } else {
+        const parts = await uploadParts({
+          file,
+          parts: target.parts!,
+          completed: getTask(id)?.completedParts ?? [],
+          onPartCompleted: (part) =>
+            updateTask(id, {
+              completedParts: [...(getTask(id)?.completedParts ?? []), part],
+            }),
+          onProgress: (uploaded) => updateTask(id, { uploaded }),
+          signal: controller.signal,
+        });
+        await hyphaStore.completeProjectUpload(
+          target.artifactId,
+          target.uploadId!,
+          parts,
+        );
+      }
+
+      files.delete(id);
+      updateTask(id, { status: "completed", uploaded: task.size });
+      console.log("[UploadStore] Upload completed:", task.filePath);
+    } catch (error) {
+      if (error instanceof UploadAbortedError) {
+        // Status was already set by pause or cancel
+        return;
+      }
+      console.error("[UploadStore] Upload failed:", task.filePath, error);
+      updateTask(id, {
+        status: "error",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      controllers.delete(id);
+      pump();
+    }
+  };
+
+  // Start queued uploads while there are free slots
+  const pump = () => {
+    const tasks = get().tasks;
+    let running = tasks.filter((task) => task.status === "uploading").length;
+    for (const task of tasks) {
+      if (running >= MAX_CONCURRENT_UPLOADS) break;
+      if (task.status === "queued" && !controllers.has(task.id)) {
+        running += 1;
+        run(task.id);
+      }
+    }
+  };
+
+  return {
+    tasks: [],
+
+    addFiles(items, projectId) {
+      const added = items.map(({ file, path }) => {
+        const id = nanoid();
+        files.set(id, file);
+        return {
+          id,
+          fileName: file.name,
+          filePath: path,
+          projectId,
+          size: file.size,
+          uploaded: 0,
+          status: "queued" as const,
+          completedParts: [],
+        };
+      });
+      set((state) => ({ tasks: [...state.tasks, ...added] }));
+      pump();
+      return added;
+    },
+
+    pause(id) {
+      const status = getTask(id)?.status;
+      if (status !== "uploading" && status !== "queued") return;
+      updateTask(id, { status: "paused" });
+      controllers.get(id)?.abort();
+    },
+
+    // Also used to retry failed uploads, which continue with the parts left
+    resume(id) {
+      const status = getTask(id)?.status;
+      if (status !== "paused" && status !== "error") return;
+      updateTask(id, { status: "queued" });
+      pump();
+    },
+
+    cancel(id) {
+      if (!getTask(id)) return;
+      updateTask(id, { status: "cancelled" });
+      controllers.get(id)?.abort();
+      files.delete(id);
+    },
+
+    clearFinished() {
+      set((state) => ({
+        tasks: state.tasks.filter(
+          (task) => task.status !== "completed" && task.status !== "cancelled",
+        ),
+      }));
+    },
+  };
+});
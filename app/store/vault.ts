@@ -0,0 +1,147 @@
+import { create } from "zustand";
+import { combine } from "zustand/middleware";
+import {
+  VaultSecret,
+  createVaultSalt,
+  decryptSecrets,
+  deleteVault,
+  deriveVaultKey,
+  encryptSecrets,
+  readVault,
+  writeVault,
+} from "../utils/vault";
+
+// Shorter values would redact ordinary words from messages
+const MIN_REDACTED_LENGTH = 4;
+
+// Only held in memory while the vault is unlocked
+let vaultKey: CryptoKey | null = null;
+let vaultSalt: Uint8Array | null = null;
+
+export const useVaultStore = create(
+  combine(
+    {
+      exists: false,
+      unlocked: false,
+      secrets: [] as VaultSecret[],
+    },
+    (set, get) => {
+      const save = async (secrets: VaultSecret[]) => {
+        if (!vaultKey || !vaultSalt) {
+          throw new Error("The secrets vault is locked");
+        }
+        await writeVault(await encryptSecrets(vaultKey, vaultSalt, secrets));
+        set({ secrets });
+      };
+
+      return {
+        async load() {
+          set({ exists: !!(await readVault()) });
+        },
+
+        async create(passphrase: string) {
+          vaultSalt = createVaultSalt();
+          vaultKey = await deriveVaultKey(passphrase, vaultSalt);
+          await save([]);
+          set({ exists: true, unlocked: true });
+        },
+
+        async unlock(passphrase: string) {
+          const vault = await readVault();
+          if (!vault) throw new Error("No secrets vault to unlock");
+          const key = await deriveVaultKey(passphrase, vault.salt);
+          const secrets = await decryptSecrets(key, vault);
+          vaultKey = key;
+          vaultSalt = vault.salt;
+          set({ unlocked: true, secrets });
+        },
+
+        lock() {
+          vaultKey = null;
+          vaultSalt = null;
+          set({ unlocked: false, secrets: [] });
+        },
+
+        async setSecret(secret: VaultSecret, previousName?: string) {
+          const replaced = previousName ?? secret.name;
+          await save(
+            get()
+              .secrets.filter(
+                (s) => s.name !== replaced && s.name !== secret.name,
+              )
+              .concat(secret),
+          );
+        },
+
+        async removeSecret(name: string) {
+          await save(get().secrets.filter((s) => s.name !== name));
+        },
+
+        async reset() {
+          await deleteVault();
+          vaultKey = null;
+          vaultSalt = null;
+          set({ exists: false, unlocked: false, secrets: [] });
+        },
+      };
+    },
+  ),
+);
+
+/**
+ * Kernel environment variables of the selected secrets, empty while the
+ * vault is locked
+ */
+export function getSecretEnvirons(names?: string[]): Record<string, string> {
+  if (!names?.length) return {};
+  return Object.fromEntries(
+    useVaultStore
+      .getState()
+      .secrets.filter((secret) => names.includes(secret.name))
+      .map((secret) => [secret.name, secret.value]),
+  );
+}
+
+/**
+ * Replace the values of unlocked secrets in text with their names
+ */
+export function redactSecrets(text: string): string {
+  if (!text) return text;
+  return useVaultStore
+    .getState()
+    .secrets.filter((secret) => secret.value.length >= MIN_REDACTED_LENGTH)
+    .reduce(
+      (result, secret) =>
+        result.split(secret.value).join(`[REDACTED:${secret.name}]`),
+      text,
+    );
+}
+
+/**
+ * Put the values of unlocked secrets back in place of their names, e.g. in
+ * redacted code that is run again
+ */
+export function unredactSecrets(text: string): string {
+  return useVaultStore
+    .getState()
+    .secrets.reduce(
+      (result, secret) =>
+        result.split(`[REDACTED:${secret.name}]`).join(secret.value),
+      text,
+    );
+}
+
+// Redact every string in messages, tool call arguments and the like
+export function redactSecretsDeep<T>(value: T): T {
+  if (typeof value === "string") return redactSecrets(value) as T;
+  if (Array.isArray(value)) return value.map(redactSecretsDeep) as T;
+  if (value && typeof value === "object" && value.constructor === Object) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        redactSecretsDeep(item),
+      ]),
+    ) as T;
+  }
+  return value;
+}
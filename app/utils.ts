@@ -3,6 +3,7 @@ import { showToast } from "./components/ui-lib";
 import Locale from "./locales";
 import { RequestMessage } from "./client/api";
 import { Model } from "./store";
+import { Resource } from "./store/hypha";
 import { ModelType, prebuiltAppConfig } from "@mlc-ai/web-llm";
 import { ChatImage } from "./typing";
 
@@ -57,6 +58,21 @@ export async function downloadAs(text: string, filename: string) {
   document.body.removeChild(element);
 }
 
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const element = document.createElement("a");
+  element.setAttribute("href", url);
+  element.setAttribute("download", filename);
+
+  element.style.display = "none";
+  document.body.appendChild(element);
+
+  element.click();
+
+  document.body.removeChild(element);
+  URL.revokeObjectURL(url);
+}
+
 export function compressImage(file: File, maxSize: number): Promise<ChatImage> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -275,6 +291,15 @@ export const isVisionModel = (model: Model) =>
   prebuiltAppConfig.model_list.find((m) => m.model_id === model)?.model_type ===
   ModelType.VLM;
 
+// Agents declare image input support via manifest capabilities or tags
+export const isVisionAgent = (resource?: Resource | null) =>
+  !!resource &&
+  ["vision", "multimodal"].some(
+    (c) =>
+      resource.manifest.capabilities?.includes(c) ||
+      resource.manifest.tags?.includes(c),
+  );
+
 // Fix various problems in webllm generation
 export function fixMessage(message: string) {
   // RedPajama model incorrectly includes `<human` in response
@@ -0,0 +1,107 @@
+// Live output of long running code is capped, keeping its most recent part
+export const MAX_TERMINAL_OUTPUT = 50000;
+
+export interface AnsiSegment {
+  text: string;
+  color?: string;
+  bold?: boolean;
+}
+
+const ANSI_COLORS = [
+  "#4b5563",
+  "#dc2626",
+  "#16a34a",
+  "#ca8a04",
+  "#2563eb",
+  "#c026d3",
+  "#0891b2",
+  "#9ca3af",
+];
+const ANSI_BRIGHT_COLORS = [
+  "#6b7280",
+  "#ef4444",
+  "#22c55e",
+  "#eab308",
+  "#3b82f6",
+  "#d946ef",
+  "#06b6d4",
+  "#d1d5db",
+];
+
+// eslint-disable-next-line no-control-regex
+const ESCAPE_PATTERN = /\x1b\[([0-9;?]*)([A-Za-z])/g;
+
+/**
+ * Split terminal output into styled segments. Only colours and bold text
+ * are kept, cursor movement and other escape sequences are dropped.
+ */
+export function parseAnsi(text: string): AnsiSegment[] {
+  const segments: AnsiSegment[] = [];
+  let style: Omit<AnsiSegment, "text"> = {};
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  ESCAPE_PATTERN.lastIndex = 0;
+  while ((match = ESCAPE_PATTERN.exec(text))) {
+    if (match.index > position) {
+      segments.push({ text: text.slice(position, match.index), ...style });
+    }
+    position = match.index + match[0].length;
+    if (match[2] !== "m") continue;
+
+    const codes = match[1] ? match[1].split(";").map(Number) : [0];
+    for (const code of codes) {
+      if (code === 0) {
+        style = {};
+      } else if (code === 1) {
+        style = { ...style, bold: true };
+      } else if (code === 22) {
+        style = { ...style, bold: false };
+      } else if (code >= 30 && code <= 37) {
+        style = { ...style, color: ANSI_COLORS[code - 30] };
+      } else if (code >= 90 && code <= 97) {
+        style = { ...style, color: ANSI_BRIGHT_COLORS[code - 90] };
+      } else if (code === 39) {
+        style = { ...style, color: undefined };
+      }
+    }
+  }
+
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), ...style });
+  }
+  return segments;
+}
+
+// Keep the last write of a line redrawn with carriage returns. A trailing
+// carriage return stays, so that the next write replaces the line.
+function collapseLine(line: string) {
+  if (!line.includes("\r")) return line;
+  const parts = line.split("\r");
+  const last = parts.filter(Boolean).pop() ?? "";
+  return line.endsWith("\r") ? last + "\r" : last;
+}
+
+/**
+ * Append a chunk of stdout or stderr, collapsing progress bars that redraw
+ * their line (like tqdm) to their latest state. Stderr is shown in red.
+ */
+export function appendTerminalOutput(
+  previous: string | undefined,
+  chunk: string,
+  stream: "stdout" | "stderr" = "stdout",
+): string {
+  // Colour each piece of a line, so it survives collapsing the line
+  const text =
+    stream === "stderr"
+      ? chunk.replace(/[^\r\n]+/g, (piece) => `\x1b[31m${piece}\x1b[0m`)
+      : chunk;
+  const output = ((previous ?? "") + text)
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .map(collapseLine)
+    .join("\n");
+  return output.length > MAX_TERMINAL_OUTPUT
+    ? output.slice(-MAX_TERMINAL_OUTPUT)
+    : output;
+}
@@ -0,0 +1,295 @@
+import { MimeBundle, ToolCall, ToolCallRun } from "../client/api";
+import { AgentKernelType } from "../client/hypha-agent";
+import { getToolCallLanguage } from "./tool-call";
+import Locale from "../locales";
+import { ChatMessage } from "../store";
+import { Resource } from "../store/hypha";
+import { getMessageTextContent } from "../utils";
+import { PLOTLY_MIME_TYPE, getDisplayMimeType, getMimeText } from "./mime";
+import { messagesToNotebook } from "./notebook";
+import { ZipEntry } from "./zip";
+
+export interface ProjectFileInfo {
+  name: string;
+  size?: number;
+  last_modified?: number;
+}
+
+/**
+ * Everything archived by a reproducibility bundle. Parts that could not be
+ * collected are left undefined and their reason is listed in the README.
+ */
+export interface BundleSource {
+  topic: string;
+  messages: ChatMessage[];
+  agent?: { id: string; name: string };
+  // Published agent artifact, with its manifest and version
+  resource?: Resource;
+  kernelType?: AgentKernelType;
+  packages?: { name: string; version: string }[];
+  projectId?: string;
+  // Latest committed version of the project, the files are read from its
+  // staged version when `projectStaged` is set
+  projectVersion?: string | null;
+  projectStaged?: boolean;
+  projectFiles?: ProjectFileInfo[];
+  setupScript?: string;
+  // Reasons for parts that are missing, e.g. no running kernel
+  notes: string[];
+  exportedAt: Date;
+}
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  python: "py",
+  javascript: "js",
+  typescript: "ts",
+};
+
+const DISPLAY_EXTENSIONS: Record<string, string> = {
+  [PLOTLY_MIME_TYPE]: "plotly.json",
+  "text/html": "html",
+  "image/svg+xml": "svg",
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "text/markdown": "md",
+};
+
+const formatTime = (time?: number) =>
+  time ? new Date(time).toISOString() : undefined;
+
+const base64ToBytes = (base64: string) =>
+  Uint8Array.from(atob(base64.replace(/\s/g, "")), (c) => c.charCodeAt(0));
+
+function displayToContent(bundle: MimeBundle): string | Uint8Array {
+  const mimeType = getDisplayMimeType(bundle)!;
+  const value = bundle[mimeType];
+  if (mimeType === "image/png" || mimeType === "image/jpeg") {
+    return base64ToBytes(getMimeText(value));
+  }
+  return mimeType === PLOTLY_MIME_TYPE
+    ? JSON.stringify(value, null, 2)
+    : getMimeText(value);
+}
+
+export function messagesToMarkdown(messages: ChatMessage[], topic: string) {
+  return (
+    `# ${topic}\n\n` +
+    messages
+      .map((m) => {
+        return m.role === "user"
+          ? `## ${Locale.Export.MessageFromYou}:\n${getMessageTextContent(m)}`
+          : `## ${Locale.Export.MessageFromWebLLM}:\n${getMessageTextContent(
+              m,
+            ).trim()}`;
+      })
+      .join("\n\n")
+  );
+}
+
+/**
+ * Files of an archive recording what an agent did in a session: the
+ * conversation, every code execution in order with its outputs and figures,
+ * the agent and kernel environment, and the project files it could use
+ */
+export function buildReproducibilityBundle(source: BundleSource): ZipEntry[] {
+  const entries: ZipEntry[] = [];
+  const executions: any[] = [];
+
+  const addExecution = (
+    execution: ToolCall | ToolCallRun,
+    call: ToolCall,
+    message: ChatMessage,
+    rerun: boolean,
+  ) => {
+    const index = String(executions.length + 1).padStart(3, "0");
+    const extension = FILE_EXTENSIONS[getToolCallLanguage(call)] ?? "txt";
+    // Tool names come from the agent, keep them from leaving the folder
+    const toolName = call.name.replace(/[^\w-]/g, "_");
+    const codeFile = `code/${index}_${toolName}.${extension}`;
+    const code = "code" in execution ? execution.code : call.arguments.code;
+    entries.push({ name: codeFile, content: code });
+
+    const outputFiles: string[] = [];
+    if (execution.output) {
+      outputFiles.push(`outputs/${index}.txt`);
+      entries.push({ name: `outputs/${index}.txt`, content: execution.output });
+    }
+    (execution.displays ?? []).forEach((bundle, i) => {
+      const mimeType = getDisplayMimeType(bundle);
+      if (!mimeType) return;
+      const name = `outputs/${index}_${i + 1}.${DISPLAY_EXTENSIONS[mimeType]}`;
+      outputFiles.push(name);
+      entries.push({ name, content: displayToContent(bundle) });
+    });
+
+    executions.push({
+      index: executions.length + 1,
+      messageId: message.id,
+      callId: call.callId,
+      tool: call.name,
+      rerun,
+      status: execution.status,
+      startedAt: formatTime(execution.startTime),
+      endedAt: formatTime(execution.endTime),
+      code: codeFile,
+      outputs: outputFiles,
+    });
+  };
+
+  for (const message of source.messages) {
+    for (const call of message.toolCalls ?? []) {
+      if (typeof call.arguments?.code !== "string") continue;
+      addExecution(call, call, message, false);
+      for (const run of call.reruns ?? []) {
+        addExecution(run, call, message, true);
+      }
+    }
+  }
+
+  entries.push(
+    {
+      name: "conversation.md",
+      content: messagesToMarkdown(source.messages, source.topic),
+    },
+    {
+      name: "conversation.json",
+      content: JSON.stringify(
+        { topic: source.topic, messages: source.messages },
+        null,
+        2,
+      ),
+    },
+    {
+      name: "session.ipynb",
+      content: JSON.stringify(
+        messagesToNotebook(
+          source.messages,
+          source.topic,
+          source.setupScript,
+          source.kernelType,
+        ),
+        null,
+        1,
+      ),
+    },
+    {
+      name: "executions.json",
+      content: JSON.stringify(executions, null, 2),
+    },
+  );
+
+  if (source.agent || source.resource) {
+    const resource = source.resource;
+    entries.push({
+      name: "agent/manifest.json",
+      content: JSON.stringify(
+        {
+          id: resource?.id ?? source.agent?.id,
+          name: resource?.manifest.name ?? source.agent?.name,
+          version: resource?.manifest.version,
+          createdBy: resource?.created_by,
+          lastModified: resource?.last_modified,
+          manifest: resource?.manifest,
+        },
+        null,
+        2,
+      ),
+    });
+  }
+  if (source.packages) {
+    entries.push({
+      name: "environment/packages.txt",
+      content: source.packages
+        .map((p) => `${p.name}==${p.version}`)
+        .join("\n")
+        .concat("\n"),
+    });
+  }
+  if (source.projectFiles) {
+    entries.push({
+      name: "project/files.json",
+      content: JSON.stringify(
+        {
+          projectId: source.projectId,
+          version: source.projectVersion,
+          staged: source.projectStaged,
+          files: source.projectFiles,
+        },
+        null,
+        2,
+      ),
+    });
+  }
+
+  entries.unshift({
+    name: "README.md",
+    content: buildReadme(source, executions.length, entries),
+  });
+  return entries;
+}
+
+function buildReadme(
+  source: BundleSource,
+  executionCount: number,
+  entries: ZipEntry[],
+) {
+  const dates = source.messages.map((m) => m.date).filter(Boolean);
+  const agent = source.resource?.manifest.name ?? source.agent?.name;
+  const version = source.resource?.manifest.version;
+  const projectState = [
+    source.projectVersion && `version ${source.projectVersion}`,
+    source.projectStaged && "with staged changes",
+  ].filter(Boolean);
+
+  const details = [
+    `Exported: ${source.exportedAt.toISOString()}`,
+    dates.length > 0 && `First message: ${dates[0]}`,
+    dates.length > 0 && `Last message: ${dates[dates.length - 1]}`,
+    agent && `Agent: ${agent}${version ? ` (version ${version})` : ""}`,
+    `Messages: ${source.messages.length}`,
+    `Code executions: ${executionCount}`,
+    source.projectId &&
+      `Project: ${source.projectId}${
+        projectState.length ? ` (${projectState.join(", ")})` : ""
+      }`,
+  ].filter(Boolean);
+
+  const lines = [
+    `# ${source.topic}`,
+    "",
+    "Reproducibility bundle of a Hypha Chat session.",
+    "",
+    ...details.map((detail) => `- ${detail}`),
+    "",
+    "## Contents",
+    "",
+    "- `conversation.md`, `conversation.json`: the conversation",
+    "- `session.ipynb`: the conversation and code as a Jupyter notebook",
+    "- `executions.json`: every code execution in order, with timestamps",
+    "- `code/`: the executed code, numbered in execution order",
+    "- `outputs/`: captured text output and figures of each execution",
+    "- `agent/manifest.json`: the agent's manifest and version",
+    "- `environment/packages.txt`: packages installed in the agent's kernel",
+    "- `project/files.json`: files of the session's project",
+    "",
+    "Secrets stored in the chat's vault are replaced by `[REDACTED:NAME]`.",
+  ];
+
+  if (source.notes.length > 0) {
+    lines.push(
+      "",
+      "## Missing",
+      "",
+      ...source.notes.map((note) => `- ${note}`),
+    );
+  }
+
+  lines.push(
+    "",
+    "## Files",
+    "",
+    ...entries.map((entry) => `- ${entry.name}`),
+    "",
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,165 @@
+// Turns a rendered preview into a single HTML file: the page's stylesheets
+// are inlined with their images and fonts, and so are images in the content.
+// Math, highlighted code and Mermaid diagrams are already rendered to markup.
+
+// The app's body fills the window without scrolling, a document flows
+const DOCUMENT_STYLE = `
+html, body { height: auto; overflow: visible; }
+body { display: block; width: auto; max-width: 900px; margin: 0 auto; padding: 20px; user-select: text; }
+`;
+
+// Keep figures and code blocks on one page where they fit
+const PRINT_STYLE = `
+@page { margin: 12mm; }
+body { max-width: none; padding: 0; background: none; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+pre, img, svg, table, .katex-display { break-inside: avoid; }
+`;
+
+// Browsers pick the first font format they support, KaTeX lists woff2 first
+const SKIPPED_URL_PATTERN = /\.(woff|ttf|eot)(\?.*)?$/i;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+async function toDataUrl(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${response.status} ${url}`);
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Resources that can't be fetched keep their URL
+async function inlineUrl(url: string, cache: Map<string, Promise<string>>) {
+  if (url.startsWith("data:")) return url;
+  if (!cache.has(url)) {
+    cache.set(
+      url,
+      toDataUrl(url).catch((error) => {
+        console.warn("[Exporter] Failed to inline resource:", error);
+        return url;
+      }),
+    );
+  }
+  return cache.get(url)!;
+}
+
+async function collectStyles(cache: Map<string, Promise<string>>) {
+  const styles: string[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      // Cross-origin stylesheets can't be read
+      continue;
+    }
+    const base = sheet.href ?? document.baseURI;
+    let css = Array.from(rules)
+      .map((rule) => rule.cssText)
+      .join("\n");
+
+    const urls = new Set<string>();
+    css.replace(/url\((['"]?)([^'")]+)\1\)/g, (match, quote, url) => {
+      urls.add(url);
+      return match;
+    });
+    for (const url of Array.from(urls)) {
+      if (url.startsWith("data:") || url.startsWith("#")) continue;
+      if (SKIPPED_URL_PATTERN.test(url)) continue;
+      const dataUrl = await inlineUrl(new URL(url, base).href, cache);
+      css = css.split(url).join(dataUrl);
+    }
+    styles.push(css);
+  }
+  return styles.join("\n");
+}
+
+/**
+ * Self-contained HTML document of a rendered element
+ */
+export async function buildStandaloneHtml(
+  element: HTMLElement,
+  title: string,
+  options: { print?: boolean } = {},
+): Promise<string> {
+  const cache = new Map<string, Promise<string>>();
+  const clone = element.cloneNode(true) as HTMLElement;
+
+  // The document is static, nothing in it should run when it's opened
+  clone.querySelectorAll("script").forEach((script) => script.remove());
+  for (const node of [clone, ...Array.from(clone.querySelectorAll("*"))]) {
+    for (const attribute of Array.from(node.attributes)) {
+      if (attribute.name.toLowerCase().startsWith("on")) {
+        node.removeAttribute(attribute.name);
+      }
+    }
+  }
+
+  const images = Array.from(clone.querySelectorAll("img"));
+  await Promise.all(
+    images.map(async (image) => {
+      const source = image.currentSrc || image.src;
+      if (source) image.src = await inlineUrl(source, cache);
+      image.removeAttribute("srcset");
+      image.removeAttribute("loading");
+    }),
+  );
+
+  const css = await collectStyles(cache);
+  return `<!DOCTYPE html>
+<html lang="${document.documentElement.lang || "en"}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+${css}
+${DOCUMENT_STYLE}
+${options.print ? PRINT_STYLE : ""}
+</style>
+</head>
+<body class="${document.body.className}">
+${clone.outerHTML}
+</body>
+</html>
+`;
+}
+
+/**
+ * Open the print dialog for an HTML document, where it can be saved as a
+ * paginated PDF
+ */
+export function printHtml(html: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const frame = document.createElement("iframe");
+    // Scripts stay disabled, printing needs access to the frame and modals
+    frame.setAttribute("sandbox", "allow-same-origin allow-modals");
+    frame.style.position = "fixed";
+    frame.style.right = "0";
+    frame.style.bottom = "0";
+    frame.style.width = "0";
+    frame.style.height = "0";
+    frame.style.border = "none";
+
+    frame.onload = async () => {
+      const frameWindow = frame.contentWindow;
+      if (!frameWindow) {
+        frame.remove();
+        reject(new Error("Failed to open the print frame"));
+        return;
+      }
+      await frameWindow.document.fonts?.ready;
+      frameWindow.addEventListener("afterprint", () => frame.remove());
+      frameWindow.focus();
+      frameWindow.print();
+      resolve();
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
+}
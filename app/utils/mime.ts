@@ -0,0 +1,178 @@
+import { MimeBundle } from "../client/api";
+
+export const PLOTLY_MIME_TYPE = "application/vnd.plotly.v1+json";
+
+// Richest representation first, text/plain is already part of the text output
+const DISPLAY_MIME_TYPES = [
+  PLOTLY_MIME_TYPE,
+  "text/html",
+  "image/svg+xml",
+  "image/png",
+  "image/jpeg",
+  "text/markdown",
+];
+
+// Enough for pandas tables and formatted text, everything else is dropped
+const ALLOWED_TAGS = new Set([
+  "a",
+  "b",
+  "blockquote",
+  "br",
+  "caption",
+  "code",
+  "col",
+  "colgroup",
+  "div",
+  "em",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "hr",
+  "i",
+  "img",
+  "li",
+  "ol",
+  "p",
+  "pre",
+  "s",
+  "small",
+  "span",
+  "strong",
+  "sub",
+  "sup",
+  "table",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "tr",
+  "u",
+  "ul",
+]);
+const ALLOWED_ATTRIBUTES = new Set([
+  "align",
+  "alt",
+  "border",
+  "colspan",
+  "height",
+  "href",
+  "rowspan",
+  "src",
+  "title",
+  "width",
+]);
+// Removed with their content instead of being unwrapped
+const DROPPED_TAGS = new Set([
+  "script",
+  "style",
+  "iframe",
+  "object",
+  "embed",
+  "template",
+  "noscript",
+]);
+
+/**
+ * Display data of Jupyter-style kernel outputs, given as output messages,
+ * notebook cell outputs or their JSON. Outputs without a rich representation
+ * are skipped.
+ */
+export function extractMimeBundles(outputs: unknown): MimeBundle[] {
+  if (typeof outputs === "string") {
+    try {
+      outputs = JSON.parse(outputs);
+    } catch {
+      return [];
+    }
+  }
+  if (outputs && typeof outputs === "object" && !Array.isArray(outputs)) {
+    outputs = (outputs as { outputs?: unknown }).outputs;
+  }
+  if (!Array.isArray(outputs)) return [];
+
+  return outputs.flatMap((item) => {
+    const type = item?.type ?? item?.output_type;
+    if (type !== "display_data" && type !== "execute_result") return [];
+    const bundle = item.data?.data ?? item.data;
+    return bundle && typeof bundle === "object" && getDisplayMimeType(bundle)
+      ? [bundle as MimeBundle]
+      : [];
+  });
+}
+
+export function getDisplayMimeType(bundle: MimeBundle): string | undefined {
+  return DISPLAY_MIME_TYPES.find((type) => bundle[type] !== undefined);
+}
+
+// Notebooks split text values into lines
+export function getMimeText(value: unknown): string {
+  return Array.isArray(value) ? value.join("") : String(value ?? "");
+}
+
+export function getMimeImageSource(mimeType: string, value: unknown): string {
+  const text = getMimeText(value);
+  return mimeType === "image/svg+xml"
+    ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(text)}`
+    : `data:${mimeType};base64,${text.replace(/\s/g, "")}`;
+}
+
+const isSafeUrl = (url: string) =>
+  /^(https?:|mailto:|#|data:image\/(png|jpeg|gif|webp);)/i.test(url.trim());
+
+/**
+ * Reduce HTML output of the kernel to an allow-list of tags and attributes,
+ * without scripts, styles, event handlers or javascript: links
+ */
+export function sanitizeHtml(html: string): string {
+  if (typeof DOMParser === "undefined") return "";
+  // Parsed documents are inert, nothing runs or loads while cleaning them
+  const document = new DOMParser().parseFromString(html, "text/html");
+
+  const clean = (element: Element) => {
+    for (const child of Array.from(element.children)) {
+      const tag = child.tagName.toLowerCase();
+      if (DROPPED_TAGS.has(tag)) {
+        child.remove();
+        continue;
+      }
+      clean(child);
+      if (!ALLOWED_TAGS.has(tag)) {
+        child.replaceWith(...Array.from(child.childNodes));
+        continue;
+      }
+      for (const attribute of Array.from(child.attributes)) {
+        const name = attribute.name.toLowerCase();
+        if (
+          !ALLOWED_ATTRIBUTES.has(name) ||
+          ((name === "href" || name === "src") && !isSafeUrl(attribute.value))
+        ) {
+          child.removeAttribute(attribute.name);
+        }
+      }
+      if (tag === "a") {
+        child.setAttribute("target", "_blank");
+        child.setAttribute("rel", "noopener noreferrer");
+      }
+    }
+  };
+  clean(document.body);
+  return document.body.innerHTML;
+}
+
+/**
+ * Standalone page drawing a Plotly figure, meant for a sandboxed iframe
+ */
+export function renderPlotlyDocument(
+  figure: string | Record<string, any>,
+): string {
+  const figureJson =
+    typeof figure === "string" ? figure : JSON.stringify(figure);
+  return `<!DOCTYPE html><html><head><script src="https://cdn.plot.ly/plotly-2.35.2.min.js"></script></head><body style="margin: 0"><div id="plot"></div><script>const fig = ${figureJson.replace(
+    /<\//g,
+    "<\\/",
+  )}; Plotly.newPlot("plot", fig.data || [], fig.layout || {}, { responsive: true });</script></body></html>`;
+}
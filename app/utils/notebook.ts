@@ -0,0 +1,163 @@
+import { nanoid } from "nanoid";
+import { ToolCall, ToolCallRun } from "../client/api";
+import { AgentKernelType } from "../client/hypha-agent";
+import { splitContentByToolCalls } from "./tool-call";
+import Locale from "../locales";
+import { ChatMessage } from "../store";
+import { getMessageTextContent } from "../utils";
+
+// Cells and outputs follow nbformat 4.5, see
+// https://nbformat.readthedocs.io/en/latest/format_description.html
+type NotebookOutput =
+  | { output_type: "stream"; name: "stdout" | "stderr"; text: string }
+  | {
+      output_type: "display_data";
+      data: Record<string, any>;
+      metadata: Record<string, any>;
+    };
+
+type NotebookCell =
+  | {
+      cell_type: "markdown";
+      id: string;
+      metadata: Record<string, any>;
+      source: string;
+    }
+  | {
+      cell_type: "code";
+      id: string;
+      metadata: Record<string, any>;
+      source: string;
+      execution_count: number | null;
+      outputs: NotebookOutput[];
+    };
+
+export interface Notebook {
+  nbformat: 4;
+  nbformat_minor: 5;
+  metadata: Record<string, any>;
+  cells: NotebookCell[];
+}
+
+// Deno's Jupyter kernel runs both TypeScript and JavaScript
+const KERNEL_METADATA: Record<AgentKernelType, Record<string, any>> = {
+  PYTHON: {
+    kernelspec: {
+      name: "python3",
+      display_name: "Python 3",
+      language: "python",
+    },
+    language_info: { name: "python" },
+  },
+  TYPESCRIPT: {
+    kernelspec: { name: "deno", display_name: "Deno", language: "typescript" },
+    language_info: { name: "typescript" },
+  },
+  JAVASCRIPT: {
+    kernelspec: { name: "deno", display_name: "Deno", language: "javascript" },
+    language_info: { name: "javascript" },
+  },
+};
+
+const markdownCell = (source: string): NotebookCell => ({
+  cell_type: "markdown",
+  id: nanoid(),
+  metadata: {},
+  source,
+});
+
+function getExecutionOutputs(
+  execution: ToolCall | ToolCallRun,
+): NotebookOutput[] {
+  const outputs: NotebookOutput[] = [];
+  if (execution.output) {
+    outputs.push({
+      output_type: "stream",
+      name: execution.status === "error" ? "stderr" : "stdout",
+      text: execution.output,
+    });
+  }
+  for (const bundle of execution.displays ?? []) {
+    outputs.push({ output_type: "display_data", data: bundle, metadata: {} });
+  }
+  return outputs;
+}
+
+/**
+ * Turn chat messages into a notebook for the session's kernel: conversation
+ * text becomes markdown cells and every code execution of the agent a code
+ * cell with the output it captured
+ */
+export function messagesToNotebook(
+  messages: ChatMessage[],
+  topic: string,
+  setupScript?: string,
+  kernelType: AgentKernelType = "PYTHON",
+): Notebook {
+  const cells: NotebookCell[] = [markdownCell(`# ${topic}`)];
+  let executionCount = 0;
+
+  const codeCell = (
+    code: string,
+    outputs: NotebookOutput[] = [],
+    executed = true,
+  ): NotebookCell => ({
+    cell_type: "code",
+    id: nanoid(),
+    metadata: {},
+    source: code,
+    execution_count: executed ? ++executionCount : null,
+    outputs,
+  });
+
+  if (setupScript) {
+    cells.push(codeCell(setupScript, [], false));
+  }
+
+  for (const message of messages) {
+    if (message.role === "user") {
+      const text = getMessageTextContent(message).trim();
+      if (text) {
+        cells.push(
+          markdownCell(`## ${Locale.Export.MessageFromYou}:\n\n${text}`),
+        );
+      }
+      continue;
+    }
+
+    let heading = `## ${Locale.Export.MessageFromWebLLM}:`;
+    const segments = splitContentByToolCalls(
+      getMessageTextContent(message),
+      message.toolCalls,
+    );
+    for (const segment of segments) {
+      if (segment.type === "text") {
+        const text = segment.content.trim();
+        if (text) {
+          cells.push(markdownCell(heading ? `${heading}\n\n${text}` : text));
+          heading = "";
+        }
+        continue;
+      }
+
+      // Only code executions can be re-run, other tool calls are left out
+      const code = segment.call.arguments?.code;
+      if (typeof code !== "string") continue;
+      if (heading) {
+        cells.push(markdownCell(heading));
+        heading = "";
+      }
+      cells.push(codeCell(code, getExecutionOutputs(segment.call)));
+      for (const run of segment.call.reruns ?? []) {
+        cells.push(codeCell(run.code, getExecutionOutputs(run)));
+      }
+    }
+  }
+
+  return {
+    nbformat: 4,
+    nbformat_minor: 5,
+    metadata: KERNEL_METADATA[kernelType],
+    cells,
+  };
+}
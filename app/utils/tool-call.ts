@@ -0,0 +1,49 @@
+import { ToolCall } from "../client/api";
+
+export type MessageSegment =
+  | { type: "text"; content: string }
+  | { type: "tool"; call: ToolCall };
+
+/**
+ * Interleave message text and tool calls using the offset recorded when
+ * each call started
+ */
+export function splitContentByToolCalls(
+  content: string,
+  toolCalls: ToolCall[] = [],
+): MessageSegment[] {
+  const segments: MessageSegment[] = [];
+  let position = 0;
+
+  for (const call of toolCalls) {
+    const offset = Math.min(
+      Math.max(call.contentOffset ?? content.length, position),
+      content.length,
+    );
+    if (offset > position) {
+      segments.push({
+        type: "text",
+        content: content.slice(position, offset),
+      });
+    }
+    segments.push({ type: "tool", call });
+    position = offset;
+  }
+
+  if (position < content.length || segments.length === 0) {
+    segments.push({ type: "text", content: content.slice(position) });
+  }
+  return segments;
+}
+
+export function getToolCallLanguage(call: ToolCall) {
+  const args = call.arguments ?? {};
+  return (
+    args.language ||
+    (args.kernel === "typescript"
+      ? "typescript"
+      : args.kernel === "javascript"
+        ? "javascript"
+        : "python")
+  );
+}
@@ -0,0 +1,136 @@
+// Files larger than one part are sent as a multipart upload; S3 requires
+// every part except the last to be at least 5MB
+export const UPLOAD_PART_SIZE = 16 * 1024 * 1024;
+export const MAX_PART_RETRIES = 3;
+
+export interface UploadPart {
+  part_number: number;
+  url: string;
+}
+
+export interface CompletedPart {
+  part_number: number;
+  etag: string;
+}
+
+export class UploadAbortedError extends Error {
+  constructor() {
+    super("Upload aborted");
+    this.name = "UploadAbortedError";
+  }
+}
+
+export function getPartCount(size: number) {
+  return Math.max(1, Math.ceil(size / UPLOAD_PART_SIZE));
+}
+
+/**
+ * PUT a blob to a presigned URL, reporting uploaded bytes as they are sent.
+ * Resolves with the ETag of the stored object when the server exposes it.
+ */
+export function putWithProgress(
+  url: string,
+  body: Blob,
+  onProgress?: (loaded: number) => void,
+  signal?: AbortSignal,
+): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new UploadAbortedError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener("abort", onAbort);
+
+    xhr.open("PUT", url);
+    xhr.setRequestHeader("Content-Type", "");
+    xhr.upload.onprogress = (event) => onProgress?.(event.loaded);
+    xhr.onload = () => {
+      signal?.removeEventListener("abort", onAbort);
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(body.size);
+        resolve(xhr.getResponseHeader("ETag"));
+      } else {
+        reject(new Error(`Upload failed with status: ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener("abort", onAbort);
+      reject(new Error("Network error during upload"));
+    };
+    xhr.onabort = () => {
+      signal?.removeEventListener("abort", onAbort);
+      reject(new UploadAbortedError());
+    };
+    xhr.send(body);
+  });
+}
+
+/**
+ * Upload the parts of a multipart upload that are not completed yet,
+ * retrying each failed part with exponential backoff
+ */
+export async function uploadParts(options: {
+  file: Blob;
+  parts: UploadPart[];
+  completed: CompletedPart[];
+  onPartCompleted?: (part: CompletedPart) => void;
+  onProgress?: (uploaded: number) => void;
+  signal?: AbortSignal;
+}): Promise<CompletedPart[]> {
+  const completed = [...options.completed];
+  const partBytes = (partNumber: number) =>
+    Math.min(
+      UPLOAD_PART_SIZE,
+      options.file.size - (partNumber - 1) * UPLOAD_PART_SIZE,
+    );
+  let uploaded = completed.reduce(
+    (total, part) => total + partBytes(part.part_number),
+    0,
+  );
+
+  for (const part of options.parts) {
+    if (completed.some((c) => c.part_number === part.part_number)) continue;
+
+    const start = (part.part_number - 1) * UPLOAD_PART_SIZE;
+    const chunk = options.file.slice(start, start + UPLOAD_PART_SIZE);
+
+    let etag: string | null;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        etag = await putWithProgress(
+          part.url,
+          chunk,
+          (loaded) => options.onProgress?.(uploaded + loaded),
+          options.signal,
+        );
+        break;
+      } catch (error) {
+        if (
+          error instanceof UploadAbortedError ||
+          attempt >= MAX_PART_RETRIES
+        ) {
+          throw error;
+        }
+        await new Promise((resolve) =>
+          setTimeout(resolve, 1000 * Math.pow(2, attempt)),
+        );
+      }
+    }
+
+    // Retrying cannot help when the storage hides the header from the browser
+    if (!etag) {
+      throw new Error(
+        "Upload response is missing the ETag header, the storage CORS configuration must expose it",
+      );
+    }
+    const done = { part_number: part.part_number, etag };
+    completed.push(done);
+    uploaded += chunk.size;
+    options.onPartCompleted?.(done);
+  }
+
+  return completed.sort((a, b) => a.part_number - b.part_number);
+}
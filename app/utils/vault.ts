@@ -0,0 +1,121 @@
+// Secrets are encrypted with AES-GCM using a key derived from the user's
+// passphrase and kept in IndexedDB, the passphrase itself is never stored
+const DB_NAME = "hypha-chat-vault";
+const DB_STORE = "vault";
+const VAULT_KEY = "secrets";
+const PBKDF2_ITERATIONS = 310000;
+
+export interface VaultSecret {
+  // Environment variable name the secret is injected as
+  name: string;
+  value: string;
+}
+
+export interface EncryptedVault {
+  salt: Uint8Array;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super("Wrong passphrase");
+    this.name = "WrongPassphraseError";
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(
+        db.transaction(DB_STORE, mode).objectStore(DB_STORE),
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export function readVault(): Promise<EncryptedVault | undefined> {
+  return runTransaction("readonly", (store) => store.get(VAULT_KEY));
+}
+
+export async function writeVault(vault: EncryptedVault): Promise<void> {
+  await runTransaction("readwrite", (store) => store.put(vault, VAULT_KEY));
+}
+
+export async function deleteVault(): Promise<void> {
+  await runTransaction("readwrite", (store) => store.delete(VAULT_KEY));
+}
+
+export function createVaultSalt() {
+  return crypto.getRandomValues(new Uint8Array(16));
+}
+
+export async function deriveVaultKey(
+  passphrase: string,
+  salt: Uint8Array,
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+export async function encryptSecrets(
+  key: CryptoKey,
+  salt: Uint8Array,
+  secrets: VaultSecret[],
+): Promise<EncryptedVault> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(secrets)),
+  );
+  return { salt, iv, data };
+}
+
+export async function decryptSecrets(
+  key: CryptoKey,
+  vault: EncryptedVault,
+): Promise<VaultSecret[]> {
+  let plain: ArrayBuffer;
+  try {
+    plain = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: vault.iv },
+      key,
+      vault.data,
+    );
+  } catch (error) {
+    // AES-GCM fails authentication when the key is derived from another
+    // passphrase
+    throw new WrongPassphraseError();
+  }
+  return JSON.parse(new TextDecoder().decode(plain));
+}